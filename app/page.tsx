@@ -6,7 +6,7 @@ import HistoryTab from '@/components/tabs/history-tab';
 import ModelTab from '@/components/tabs/model-tab';
 import SettingsTab from '@/components/tabs/settings-tab';
 import BottomNavigation from '@/components/navigation/bottom-navigation';
-import { AppSettingsContext, defaultSettings, type AppSettings } from '@/lib/app-context';
+import { AppSettingsContext, defaultSettings, migrateSettings, type AppSettings } from '@/lib/app-context';
 
 type TabType = 'recording' | 'history' | 'model' | 'settings';
 
@@ -21,7 +21,7 @@ export default function Home() {
     if (savedSettings) {
       try {
         const parsed = JSON.parse(savedSettings);
-        setAppSettings(parsed);
+        setAppSettings(migrateSettings(parsed));
         // Apply theme
         // Note: This manual theme application might conflict with next-themes used in SettingsTab.
         // It is kept here to maintain legacy behavior if appSettings.theme is set, 
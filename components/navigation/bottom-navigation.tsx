@@ -1,6 +1,7 @@
 'use client';
 
 import { Video, History, Brain, Settings } from 'lucide-react';
+import { useModelStatuses } from '@/lib/inference-service';
 
 interface BottomNavigationProps {
   activeTab: string;
@@ -8,6 +9,10 @@ interface BottomNavigationProps {
 }
 
 export default function BottomNavigation({ activeTab, setActiveTab }: BottomNavigationProps) {
+  // Model load status from the shared inference service, shown on the Model tab
+  const statuses = Object.values(useModelStatuses());
+  const modelState = statuses.some(s => s.state === 'loading') ? 'loading' : statuses.some(s => s.state === 'error') ? 'error' : null;
+
   const navItems = [
     {
       id: 'recording',
@@ -49,7 +54,15 @@ export default function BottomNavigation({ activeTab, setActiveTab }: BottomNavi
             aria-label={item.label}
             aria-current={isActive ? 'page' : undefined}
           >
-            <Icon className="w-6 h-6" strokeWidth={2} />
+            <span className="relative">
+              <Icon className="w-6 h-6" strokeWidth={2} />
+              {item.id === 'model' && modelState && (
+                <span
+                  className={`absolute -top-0.5 -right-0.5 w-2 h-2 rounded-full ${modelState === 'loading' ? 'bg-blue-500 animate-pulse' : 'bg-red-500'}`}
+                  title={modelState === 'loading' ? 'Loading model' : 'Model failed to load'}
+                />
+              )}
+            </span>
             <span className="text-xs font-medium">{item.label}</span>
           </button>
         );
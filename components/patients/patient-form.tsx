@@ -0,0 +1,68 @@
+'use client';
+
+import { useState } from 'react';
+import { PatientDraft, PatientSex } from '@/lib/patient-registry';
+
+interface PatientFormProps {
+  draft: PatientDraft;
+  onChange: (draft: PatientDraft) => void;
+}
+
+const SEX_OPTIONS: { value: PatientSex; label: string }[] = [
+  { value: 'unspecified', label: '—' },
+  { value: 'female', label: 'Female' },
+  { value: 'male', label: 'Male' },
+  { value: 'other', label: 'Other' },
+];
+
+export default function PatientForm({ draft, onChange }: PatientFormProps) {
+  // Free-text so commas/spaces can be typed; parsed into the list on change
+  const [medicationsText, setMedicationsText] = useState(draft.medications.join(', '));
+
+  const set = (patch: Partial<PatientDraft>) => onChange({ ...draft, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="text-sm font-medium">Name</label>
+        <input type="text" className="w-full bg-background border rounded p-2" value={draft.name} onChange={e => set({ name: e.target.value })} placeholder="Full Name"/>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-sm font-medium">Sex</label>
+          <select className="w-full bg-background border rounded p-2" value={draft.sex} onChange={e => set({ sex: e.target.value as PatientSex })}>
+            {SEX_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="text-sm font-medium">Date of Birth</label>
+          <input type="date" className="w-full bg-background border rounded p-2" value={draft.dateOfBirth || ''} onChange={e => set({ dateOfBirth: e.target.value })}/>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-sm font-medium">Ht (cm)</label>
+          <input type="number" className="w-full bg-background border rounded p-2" value={draft.height ?? ''} onChange={e => set({ height: e.target.value ? +e.target.value : undefined })} placeholder="170"/>
+        </div>
+        <div>
+          <label className="text-sm font-medium">Wt (kg)</label>
+          <input type="number" className="w-full bg-background border rounded p-2" value={draft.weight ?? ''} onChange={e => set({ weight: e.target.value ? +e.target.value : undefined })} placeholder="70"/>
+        </div>
+      </div>
+      <div>
+        <label className="text-sm font-medium">Medications</label>
+        <input
+          type="text"
+          className="w-full bg-background border rounded p-2"
+          value={medicationsText}
+          onChange={e => { setMedicationsText(e.target.value); set({ medications: e.target.value.split(',') }); }}
+          placeholder="Comma separated"
+        />
+      </div>
+      <div>
+        <label className="text-sm font-medium">Notes</label>
+        <textarea className="w-full bg-background border rounded p-2 text-sm" rows={2} value={draft.notes} onChange={e => set({ notes: e.target.value })}/>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import { useContext, useEffect, useMemo, useRef } from 'react';
+import { RecordingSession, filterConfigForRate, preprocessPPG } from '@/lib/signal-processing';
+import { analyzeHrv, HrvReport as HrvReportData } from '@/lib/hrv';
+import { AppSettingsContext } from '@/lib/app-context';
+import SignalVisualizer from '@/components/visualization/signal-visualizer';
+import { ChevronLeft, HeartPulse, AlertTriangle } from 'lucide-react';
+
+interface HrvReportProps {
+  session: RecordingSession;
+  raw: number[];             // Uniformly resampled clip range
+  onBack: () => void;
+}
+
+// PSD plotted up to the top of the HF band
+const PSD_MAX_HZ = 0.5;
+
+function Metric({ label, value, unit }: { label: string; value: string; unit?: string }) {
+  return (
+    <div className="bg-background p-2 rounded border">
+      <p className="text-[10px] uppercase text-muted-foreground">{label}</p>
+      <p className="font-bold text-sm font-mono">{value}</p>
+      {unit && <p className="text-[10px] text-muted-foreground">{unit}</p>}
+    </div>
+  );
+}
+
+/** Scatter of each NN interval against the next, with the identity line. */
+function PoincarePlot({ nn, height = 200 }: { nn: number[]; height?: number }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || nn.length < 2) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = rect.width * dpr;
+    canvas.height = rect.height * dpr;
+    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, rect.width, rect.height);
+
+    const lo = Math.min(...nn), hi = Math.max(...nn);
+    const pad = (hi - lo) * 0.1 || 10;
+    const min = lo - pad, range = hi - lo + 2 * pad;
+    const size = Math.min(rect.width, rect.height);
+    const x0 = (rect.width - size) / 2;
+    const toX = (v: number) => x0 + ((v - min) / range) * size;
+    const toY = (v: number) => rect.height - ((v - min) / range) * size;
+
+    ctx.strokeStyle = '#64748b';
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(toX(min), toY(min));
+    ctx.lineTo(toX(min + range), toY(min + range));
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.fillStyle = '#10b981';
+    for (let i = 1; i < nn.length; i++) {
+      ctx.beginPath();
+      ctx.arc(toX(nn[i - 1]), toY(nn[i]), 2, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+  }, [nn, height]);
+
+  return (
+    <div className="bg-card border border-border rounded-xl overflow-hidden shadow-sm">
+      <div className="px-4 py-2 border-b border-border bg-muted/20">
+        <h3 className="text-xs font-bold uppercase tracking-wider text-muted-foreground">Poincaré (NNᵢ vs NNᵢ₊₁)</h3>
+      </div>
+      <div style={{ height }} className="relative w-full">
+        <canvas ref={canvasRef} style={{ width: '100%', height: '100%' }} className="block" />
+      </div>
+    </div>
+  );
+}
+
+export default function HrvReport({ session, raw, onBack }: HrvReportProps) {
+  const { settings } = useContext(AppSettingsContext);
+
+  // Preprocessed as for feature extraction
+  const analysis = useMemo((): { report: HrvReportData } | { error: string } => {
+    try {
+      const fs = session.samplingRate || 30;
+      return { report: analyzeHrv(preprocessPPG(raw, filterConfigForRate(settings.filterConfig, fs)), fs) };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [session, raw, settings.filterConfig]);
+
+  return (
+    <div className="w-full flex flex-col bg-background min-h-screen pb-32">
+      <div className="p-4 border-b bg-card sticky top-0 z-30">
+        <button onClick={onBack} className="flex items-center gap-2 text-primary mb-2"><ChevronLeft className="w-4 h-4"/> Back</button>
+        <h2 className="font-bold flex items-center gap-2"><HeartPulse className="w-5 h-5"/> HRV Report</h2>
+        <p className="text-xs text-muted-foreground">{session.id} • {session.patientName || 'Unknown'} • {new Date(session.startTime).toLocaleString()}</p>
+      </div>
+
+      {'error' in analysis ? (
+        <div className="p-4">
+          <p className="text-sm text-red-500 flex items-center gap-2"><AlertTriangle className="w-4 h-4"/> {analysis.error}</p>
+        </div>
+      ) : (
+        <div className="p-4 space-y-4">
+          {(() => {
+            const r = analysis.report;
+            const corrected = r.ectopic.filter(Boolean).length;
+            const psdBins = r.frequency ? r.frequency.freqs.findIndex(f => f > PSD_MAX_HZ) : -1;
+            // Frequency and nonlinear measures of a mostly interpolated series are not shown
+            const frequency = r.reliable ? r.frequency : null;
+            const withheld = `Withheld: ${Math.round(r.ectopicFraction * 100)}% of intervals were interpolated.`;
+            return (
+              <>
+                <p className="text-xs text-muted-foreground">
+                  {r.beatTimes.length} beats over {Math.round(r.durationSec)} s • {corrected} interval{corrected === 1 ? '' : 's'} corrected as ectopic
+                </p>
+                {r.warnings.map(w => (
+                  <p key={w} className="text-xs text-yellow-600 dark:text-yellow-400 flex items-center gap-2"><AlertTriangle className="w-3 h-3"/> {w}</p>
+                ))}
+
+                <div className="bg-card border rounded p-4 space-y-2">
+                  <h3 className="text-sm font-bold">Time Domain</h3>
+                  <div className="grid grid-cols-4 gap-2 text-center">
+                    <Metric label="Mean HR" value={r.time.meanHR.toFixed(0)} unit="bpm"/>
+                    <Metric label="SDNN" value={r.time.sdnn.toFixed(1)} unit="ms"/>
+                    <Metric label="RMSSD" value={r.time.rmssd.toFixed(1)} unit="ms"/>
+                    <Metric label="pNN50" value={r.time.pnn50.toFixed(1)} unit="%"/>
+                  </div>
+                </div>
+
+                <SignalVisualizer rawSignal={r.nn} title="Tachogram (NN, ms)" color="cyan" height={100}/>
+
+                <div className="bg-card border rounded p-4 space-y-2">
+                  <h3 className="text-sm font-bold">Frequency Domain</h3>
+                  {frequency ? (
+                    <div className="grid grid-cols-4 gap-2 text-center">
+                      <Metric label="LF" value={frequency.lf.toFixed(0)} unit="ms²"/>
+                      <Metric label="HF" value={frequency.hf.toFixed(0)} unit="ms²"/>
+                      <Metric label="LF/HF" value={frequency.lfHf.toFixed(2)}/>
+                      <Metric label="LF / HF nu" value={`${frequency.lfNu.toFixed(0)} / ${frequency.hfNu.toFixed(0)}`} unit="%"/>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">{r.frequency ? withheld : 'Not available for this recording.'}</p>
+                  )}
+                </div>
+
+                {frequency && (
+                  <SignalVisualizer rawSignal={frequency.psd.slice(0, psdBins < 0 ? undefined : psdBins)} title={`Tachogram PSD (0-${PSD_MAX_HZ} Hz)`} color="emerald" height={100}/>
+                )}
+
+                <div className="bg-card border rounded p-4 space-y-2">
+                  <h3 className="text-sm font-bold">Nonlinear</h3>
+                  {r.reliable && r.poincare ? (
+                    <div className="grid grid-cols-4 gap-2 text-center">
+                      <Metric label="SD1" value={r.poincare.sd1.toFixed(1)} unit="ms"/>
+                      <Metric label="SD2" value={r.poincare.sd2.toFixed(1)} unit="ms"/>
+                      <Metric label="SampEn" value={r.sampleEntropy !== null ? r.sampleEntropy.toFixed(2) : '-'}/>
+                      <Metric label="DFA α1" value={r.dfaAlpha1 !== null ? r.dfaAlpha1.toFixed(2) : '-'}/>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">{r.poincare ? withheld : 'Not available for this recording.'}</p>
+                  )}
+                </div>
+
+                {r.reliable && r.poincare && <PoincarePlot nn={r.nn}/>}
+              </>
+            );
+          })()}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,37 +1,76 @@
 'use client';
 
-import { useEffect, useState, useMemo } from 'react';
-import { RecordingSession, SignalStorage, generateMIMICCSV, calculateSignalStats, applyFilterToArray, performMathEstimation } from '@/lib/signal-processing';
+import { useContext, useEffect, useState, useMemo } from 'react';
+import { RecordingSession, generateMIMICCSV, calculateSignalStats, applyFilterToArray, filterConfigForRate, performMathEstimation } from '@/lib/signal-processing';
+import { SignalStorage, SessionSummary } from '@/lib/signal-storage';
 import SignalVisualizer from '@/components/visualization/signal-visualizer';
-import { Trash2, Download, ChevronLeft, Scissors, Activity, User } from 'lucide-react';
-type ViewMode = 'list' | 'detail';
+import { AppSettingsContext } from '@/lib/app-context';
+import { Trash2, Download, ChevronLeft, Scissors, Activity, User, Binary, Pencil, UserPlus, X, TrendingUp, HeartPulse } from 'lucide-react';
+import { encodeSignal } from '@/lib/signal-codec';
+import { resampleUniform } from '@/lib/resampling';
+import { Patient, PatientDraft, PatientRegistry, emptyPatientDraft } from '@/lib/patient-registry';
+import PatientForm from '@/components/patients/patient-form';
+import HrvReport from '@/components/reports/hrv-report';
+import { halfWidth } from '@/lib/uncertainty';
+import type { CalibrationTarget } from '@/lib/calibration';
+import { analyzeWindows, predictSeries, vitalsSeriesToCsv, validateWindowConfig, VitalsPoint, VitalsSeries } from '@/lib/windowed-analysis';
+import { ModelRegistry } from '@/lib/model-registry';
+
+type ViewMode = 'list' | 'detail' | 'hrv';
+
+// Patient filter values besides a patient id
+const ALL_PATIENTS = '__all__';
+const UNASSIGNED = '__none__';
+
+// Vitals trend charts; BP / glucose use the model prediction when the window has one
+const TREND_CHARTS: { label: string; unit: string; digits: number; value: (p: VitalsPoint) => number; predicted?: boolean }[] = [
+  { label: 'Heart Rate', unit: 'bpm', digits: 0, value: p => p.hr },
+  { label: 'HRV (SDNN)', unit: 'ms', digits: 0, value: p => p.hrvMs },
+  { label: 'SBP', unit: 'mmHg', digits: 0, value: p => p.predicted?.sbp ?? p.estimate.sbp, predicted: true },
+  { label: 'DBP', unit: 'mmHg', digits: 0, value: p => p.predicted?.dbp ?? p.estimate.dbp, predicted: true },
+  { label: 'Glucose', unit: 'mg/dL', digits: 0, value: p => p.predicted?.glucose ?? p.estimate.glucose, predicted: true },
+];
 
 export default function HistoryTab() {
-  const [sessions, setSessions] = useState<RecordingSession[]>([]);
+  const { settings, updateSettings } = useContext(AppSettingsContext);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
   const [loading, setLoading] = useState(true);
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [selectedSession, setSelectedSession] = useState<RecordingSession | null>(null);
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [patientFilter, setPatientFilter] = useState<string>(ALL_PATIENTS);
+  const [editingPatient, setEditingPatient] = useState<PatientDraft | null>(null);
   
   const [startMin, setStartMin] = useState<string>('0');
   const [startSec, setStartSec] = useState<string>('0');
   const [endMin, setEndMin] = useState<string>('0');
   const [endSec, setEndSec] = useState<string>('0');
 
+  const [trend, setTrend] = useState<VitalsSeries | null>(null);
+  const [windowInput, setWindowInput] = useState(String(settings.windowAnalysis.windowSec));
+  const [stepInput, setStepInput] = useState(String(settings.windowAnalysis.stepSec));
+
   useEffect(() => { loadSessions(); }, []);
 
   const loadSessions = async () => {
     setLoading(true);
     try {
-      const data = await new SignalStorage().getSessions();
-      setSessions(data.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
+      const [data, people] = await Promise.all([
+        new SignalStorage().getSessionSummaries(),
+        new PatientRegistry().getPatients()
+      ]);
+      setPatients(people);
+      setSessions(data.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()));
     } catch (e) { console.error(e); } finally { setLoading(false); }
   };
 
-  const handleSelectSession = (s: RecordingSession) => {
+  const handleSelectSession = async (summary: SessionSummary) => {
+    const s = await new SignalStorage().getSession(summary.id);
+    if (!s) return;
     setSelectedSession(s);
     setStartMin('0'); 
     setStartSec('0');
-    let dur = s.endTime && s.startTime ? Math.floor((s.endTime - s.startTime) / 1000) : Math.floor(s.rawSignal.length / 30);
+    let dur = s.endTime && s.startTime ? Math.floor((s.endTime - s.startTime) / 1000) : Math.floor(s.rawSignal.length / (s.samplingRate || 30));
     setEndMin(Math.floor(dur / 60).toString()); 
     setEndSec((dur % 60).toString());
     setViewMode('detail');
@@ -44,6 +83,31 @@ export default function HistoryTab() {
     if(selectedSession?.id === id) { setViewMode('list'); setSelectedSession(null); }
   };
 
+  const handleSavePatient = async () => {
+    if (!editingPatient) return;
+    if (!editingPatient.name.trim()) return alert("Please enter a patient name");
+    const saved = await new PatientRegistry().savePatient(editingPatient);
+    setPatients(await new PatientRegistry().getPatients());
+    setPatientFilter(saved.id);
+    setEditingPatient(null);
+  };
+
+  const handleDeletePatient = async (id: string) => {
+    if (!confirm('Delete patient? Their recordings are kept.')) return;
+    await new PatientRegistry().deletePatient(id);
+    setPatients(prev => prev.filter(p => p.id !== id));
+    setPatientFilter(ALL_PATIENTS);
+    setEditingPatient(null);
+  };
+
+  const visibleSessions = useMemo(() => {
+    if (patientFilter === ALL_PATIENTS) return sessions;
+    if (patientFilter === UNASSIGNED) return sessions.filter(s => !s.patientId);
+    return sessions.filter(s => s.patientId === patientFilter);
+  }, [sessions, patientFilter]);
+
+  const filteredPatient = patients.find(p => p.id === patientFilter);
+
   const getTimestamps = () => {
     if(!selectedSession) return {start:0, end:0};
     const sOff = ((parseInt(startMin)||0) * 60 + (parseInt(startSec)||0)) * 1000;
@@ -51,20 +115,40 @@ export default function HistoryTab() {
     return { start: selectedSession.startTime + sOff, end: selectedSession.startTime + eOff };
   };
 
-  const handleExport = () => {
+  const download = (blob: Blob, ext: string) => {
     if(!selectedSession) return;
-    const {start, end} = getTimestamps();
-    const csv = generateMIMICCSV(selectedSession, start, end);
-    const url = URL.createObjectURL(new Blob([csv], {type: 'text/csv'}));
+    const url = URL.createObjectURL(blob);
     const pid = selectedSession.patientId ? selectedSession.patientId.replace(/[^a-z0-9]/gi, '') : 'anon';
     const pname = selectedSession.patientName ? selectedSession.patientName.replace(/[^a-z0-9]/gi, '') : 'user';
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${pid}_${pname}.csv`; 
+    a.download = `${pid}_${pname}.${ext}`; 
     a.click();
   };
 
-  const getMathVitals = (s: RecordingSession) => {
+  const handleExport = () => {
+    if(!selectedSession) return;
+    const {start, end} = getTimestamps();
+    const csv = generateMIMICCSV(selectedSession, start, end);
+    download(new Blob([csv], {type: 'text/csv'}), 'csv');
+  };
+
+  // Compact binary (signal-codec) export of the clipped range
+  const handleExportBinary = async () => {
+    if(!selectedSession) return;
+    const {start, end} = getTimestamps();
+    const samples = selectedSession.rawSignal.filter(s => s.timestamp >= start && s.timestamp <= end);
+    const bytes = await encodeSignal(samples, { compress: true });
+    download(new Blob([bytes as BlobPart], {type: 'application/octet-stream'}), 'ppgs');
+  };
+
+  // Stored prediction with its 95% half-width, when the session has one
+  const withBand = (s: Omit<RecordingSession, 'rawSignal'>, t: CalibrationTarget, digits: number) => {
+    const band = s.uncertainty ? ` ±${halfWidth(s.uncertainty.intervals[t]).toFixed(digits)}` : '';
+    return `${s[t]?.toFixed(digits)}${band}`;
+  };
+
+  const getMathVitals = (s: Omit<RecordingSession, 'rawSignal'>) => {
     if (!s.features || s.features.length < 18) return { hr: '-', hrv: '-', sbp: '-', dbp: '-' };
     const est = performMathEstimation(s.features, s.age || 30, s.height || 170, s.weight || 70);
     return {
@@ -79,15 +163,61 @@ export default function HistoryTab() {
     if (!selectedSession) return { rawSlice: [], filteredSlice: [] };
     const { start, end } = getTimestamps();
     if (!selectedSession.rawSignal || selectedSession.rawSignal.length === 0) return { rawSlice: [], filteredSlice: [] };
-    const raw = selectedSession.rawSignal.filter(s => s.timestamp >= start && s.timestamp <= end).map(s => s.value);
-    const filtered = raw.length > 30 ? applyFilterToArray(raw) : raw;
+    const fs = selectedSession.samplingRate || 30;
+    const raw = resampleUniform(selectedSession.rawSignal.filter(s => s.timestamp >= start && s.timestamp <= end), fs).values;
+    const filtered = raw.length > 30 ? applyFilterToArray(raw, filterConfigForRate(settings.filterConfig, fs)) : raw;
     return { rawSlice: raw, filteredSlice: filtered };
-  }, [selectedSession, startMin, startSec, endMin, endSec]);
+  }, [selectedSession, startMin, startSec, endMin, endSec, settings.filterConfig]);
 
   const stats = useMemo(() => calculateSignalStats(filteredSlice), [filteredSlice]);
 
+  // Windowed vitals over the clipped range
+  const baseTrend = useMemo(() => {
+    if (!selectedSession || rawSlice.length === 0) return null;
+    const { age = 30, height = 170, weight = 70 } = selectedSession;
+    return analyzeWindows(rawSlice, selectedSession.samplingRate || 30, settings.filterConfig, { age, height, weight }, settings.windowAnalysis);
+  }, [rawSlice, settings.filterConfig, settings.windowAnalysis]);
+
+  // Then the session's own model on every window, when it is still available
+  useEffect(() => {
+    setTrend(baseTrend);
+    const stamp = selectedSession?.model;
+    if (!baseTrend || baseTrend.points.length === 0 || !stamp) return;
+    const { age = 30, height = 170, weight = 70 } = selectedSession;
+    let cancelled = false;
+    new ModelRegistry().getModels()
+      .then(models => {
+        const manifest = models.find(m => m.id === stamp.id);
+        return manifest ? predictSeries(baseTrend, manifest, { age, height, weight }) : baseTrend;
+      })
+      .then(series => { if (!cancelled) setTrend(series); })
+      .catch(e => console.warn("Window predictions unavailable", e));
+    return () => { cancelled = true; };
+  }, [baseTrend]);
+
+  const applyWindowConfig = () => {
+    const config = { windowSec: parseFloat(windowInput), stepSec: parseFloat(stepInput) };
+    try {
+      validateWindowConfig(config);
+      updateSettings({ windowAnalysis: config });
+    } catch (e: any) {
+      alert(e.message);
+      setWindowInput(String(settings.windowAnalysis.windowSec));
+      setStepInput(String(settings.windowAnalysis.stepSec));
+    }
+  };
+
+  const handleExportTrend = () => {
+    if (!selectedSession || !trend) return;
+    download(new Blob([vitalsSeriesToCsv(trend, getTimestamps().start)], {type: 'text/csv'}), 'vitals.csv');
+  };
+
   if(loading) return <div className="p-8 text-center">Loading...</div>;
 
+  if (viewMode === 'hrv' && selectedSession) {
+    return <HrvReport session={selectedSession} raw={rawSlice} onBack={() => setViewMode('detail')}/>;
+  }
+
   if (viewMode === 'detail' && selectedSession) {
     const v = getMathVitals(selectedSession);
     return (
@@ -98,7 +228,30 @@ export default function HistoryTab() {
             <div>
                 <h2 className="font-bold">{selectedSession.patientName || 'Unknown'}</h2>
                 <p className="text-xs text-muted-foreground">{new Date(selectedSession.startTime).toLocaleString()}</p>
+                {selectedSession.timing && (
+                  <p className="text-[10px] text-muted-foreground">{selectedSession.timing.effectiveRate.toFixed(1)} Hz • jitter {selectedSession.timing.jitterMs.toFixed(1)} ms • {selectedSession.timing.droppedFrames} dropped</p>
+                )}
+                {selectedSession.model && (
+                  <p className="text-[10px] text-muted-foreground">Model: {selectedSession.model.name} v{selectedSession.model.version}</p>
+                )}
+                {selectedSession.sbp !== undefined && selectedSession.dbp !== undefined && (
+                  <p className="text-[10px] text-muted-foreground">
+                    Predicted: {withBand(selectedSession, 'sbp', 0)} / {withBand(selectedSession, 'dbp', 0)} mmHg
+                    {selectedSession.glucose !== undefined && ` • Glu ${withBand(selectedSession, 'glucose', 1)} mg/dL`}
+                  </p>
+                )}
+                {selectedSession.protocol && (
+                  <p className={`text-[10px] ${selectedSession.protocol.completed || selectedSession.protocol.kind === 'manual' ? 'text-muted-foreground' : 'text-yellow-500'}`}>
+                    {selectedSession.protocol.label} • {Math.round(selectedSession.protocol.cleanSec)} s clean • {selectedSession.protocol.goodBeats} good beats{selectedSession.protocol.kind !== 'manual' && !selectedSession.protocol.completed ? ' (target not reached)' : ''}
+                  </p>
+                )}
             </div>
+            {selectedSession.quality && (
+              <div className="text-right text-xs">
+                <p className="text-muted-foreground">Quality</p>
+                <p className="font-bold">{selectedSession.quality}{selectedSession.qualityReport ? ` (${selectedSession.qualityReport.score})` : ''}</p>
+              </div>
+            )}
           </div>
           <div className="grid grid-cols-4 gap-2 mt-4 text-center">
               <div className="bg-muted p-2 rounded border"><p className="text-[10px] uppercase text-muted-foreground">HR</p><p className="font-bold text-sm">{v.hr}</p></div>
@@ -138,12 +291,42 @@ export default function HistoryTab() {
               <div className="bg-background p-2 rounded border"><p className="text-muted-foreground">Min</p><p className="font-bold">{stats.min.toFixed(2)}</p></div>
               <div className="bg-background p-2 rounded border"><p className="text-muted-foreground">Max</p><p className="font-bold">{stats.max.toFixed(2)}</p></div>
            </div>
+
+           <div className="bg-card border rounded p-4 space-y-3">
+             <div className="flex items-center justify-between">
+               <div className="flex items-center gap-2 font-bold text-sm"><TrendingUp className="w-4 h-4"/> Vitals Over Time</div>
+               <button onClick={handleExportTrend} disabled={!trend?.points.length} className="text-xs flex items-center gap-1 text-primary disabled:opacity-50"><Download className="w-3 h-3"/> CSV</button>
+             </div>
+             <div className="flex items-center gap-4 text-xs">
+               <label className="flex items-center gap-1">Window <input type="text" inputMode="decimal" value={windowInput} onChange={e=>setWindowInput(e.target.value)} onBlur={applyWindowConfig} className="w-12 bg-background border rounded text-center"/> s</label>
+               <label className="flex items-center gap-1">Step <input type="text" inputMode="decimal" value={stepInput} onChange={e=>setStepInput(e.target.value)} onBlur={applyWindowConfig} className="w-12 bg-background border rounded text-center"/> s</label>
+             </div>
+             {!trend || trend.points.length === 0 ? (
+               <p className="text-xs text-muted-foreground">
+                 {trend?.skipped ? `No window had enough beats (${trend.skipped} skipped).` : `Clip range is shorter than one ${settings.windowAnalysis.windowSec} s window.`}
+               </p>
+             ) : (
+               <>
+                 <p className="text-[10px] text-muted-foreground">
+                   {trend.points.length} windows{trend.skipped ? `, ${trend.skipped} skipped` : ''} • BP / glucose {trend.points.some(p => p.predicted) ? `from ${selectedSession.model?.name} (uncalibrated)` : 'estimated'}
+                 </p>
+                 {TREND_CHARTS.map(c => {
+                   const values = trend.points.map(c.value);
+                   return (
+                     <SignalVisualizer key={c.label} rawSignal={values} title={`${c.label} (${c.unit}) ${Math.min(...values).toFixed(c.digits)}–${Math.max(...values).toFixed(c.digits)}`} color={c.predicted ? 'emerald' : 'cyan'} height={60}/>
+                   );
+                 })}
+               </>
+             )}
+           </div>
         </div>
 
         <div className="fixed bottom-20 left-0 right-0 p-4 bg-card border-t border-border flex gap-2 z-50 shadow-[0_-5px_10px_rgba(0,0,0,0.1)]">
            <button onClick={handleExport} className="flex-1 flex items-center justify-center gap-2 bg-primary text-primary-foreground py-3 rounded-lg font-bold shadow-lg hover:brightness-110">
              <Download className="w-4 h-4" /> Export CSV
            </button>
+           <button onClick={() => setViewMode('hrv')} title="HRV report" className="px-4 bg-secondary text-secondary-foreground rounded-lg border hover:brightness-110"><HeartPulse className="w-5 h-5"/></button>
+           <button onClick={handleExportBinary} title="Export compact binary" className="px-4 bg-secondary text-secondary-foreground rounded-lg border hover:brightness-110"><Binary className="w-5 h-5"/></button>
            <button onClick={()=>handleDelete(selectedSession.id)} className="px-4 bg-destructive/10 text-destructive rounded-lg border border-destructive/20 hover:bg-destructive/20"><Trash2 className="w-5 h-5"/></button>
         </div>
       </div>
@@ -152,9 +335,40 @@ export default function HistoryTab() {
 
   return (
     <div className="w-full flex flex-col bg-background min-h-screen">
-      <div className="p-4 border-b"><h1 className="text-2xl font-bold">History</h1><p className="text-sm text-muted-foreground">{sessions.length} sessions</p></div>
+      {editingPatient && (
+        <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+            <div className="bg-card w-full max-w-sm max-h-[90vh] overflow-y-auto rounded-xl border shadow-2xl p-6 space-y-4">
+                <div className="flex justify-between items-center">
+                    <h2 className="text-xl font-bold flex items-center gap-2"><User className="w-5 h-5"/> {editingPatient.id ? 'Edit Patient' : 'New Patient'}</h2>
+                    <button onClick={()=>setEditingPatient(null)}><X className="w-5 h-5"/></button>
+                </div>
+                <PatientForm draft={editingPatient} onChange={setEditingPatient} />
+                <div className="flex gap-2">
+                    {editingPatient.id && (
+                        <button onClick={()=>handleDeletePatient(editingPatient.id!)} className="px-4 bg-destructive/10 text-destructive rounded-lg border border-destructive/20 hover:bg-destructive/20"><Trash2 className="w-5 h-5"/></button>
+                    )}
+                    <button onClick={handleSavePatient} className="flex-1 py-3 bg-primary text-primary-foreground rounded-lg font-bold shadow hover:opacity-90">Save</button>
+                </div>
+            </div>
+        </div>
+      )}
+
+      <div className="p-4 border-b space-y-3">
+        <div><h1 className="text-2xl font-bold">History</h1><p className="text-sm text-muted-foreground">{visibleSessions.length} sessions</p></div>
+        <div className="flex gap-2">
+          <select value={patientFilter} onChange={e => setPatientFilter(e.target.value)} className="flex-1 bg-background border rounded p-2 text-sm">
+            <option value={ALL_PATIENTS}>All patients</option>
+            {patients.map(p => <option key={p.id} value={p.id}>{p.name} ({p.id})</option>)}
+            <option value={UNASSIGNED}>Unassigned</option>
+          </select>
+          {filteredPatient && (
+            <button onClick={() => setEditingPatient({ ...filteredPatient })} title="Edit patient" className="px-3 bg-secondary text-secondary-foreground rounded border"><Pencil className="w-4 h-4"/></button>
+          )}
+          <button onClick={() => setEditingPatient(emptyPatientDraft())} title="New patient" className="px-3 bg-secondary text-secondary-foreground rounded border"><UserPlus className="w-4 h-4"/></button>
+        </div>
+      </div>
       <div className="flex-1 overflow-auto p-4 space-y-3 pb-24">
-        {sessions.map(s => {
+        {visibleSessions.map(s => {
           const v = getMathVitals(s);
           return (
             <div key={s.id} onClick={()=>handleSelectSession(s)} className="bg-card border p-4 rounded-lg cursor-pointer hover:border-primary transition-colors flex flex-col gap-3">
@@ -164,7 +378,7 @@ export default function HistoryTab() {
                         <span className="text-xs font-normal text-muted-foreground block mt-1">{new Date(s.startTime).toLocaleDateString()} at {new Date(s.startTime).toLocaleTimeString()}</span>
                     </div>
                     <div className="text-right text-xs">
-                        <span className="bg-secondary px-2 py-1 rounded-full text-secondary-foreground font-medium flex items-center gap-1"><Activity className="w-3 h-3"/> {(s.rawSignal.length / 30).toFixed(1)}s</span>
+                        <span className="bg-secondary px-2 py-1 rounded-full text-secondary-foreground font-medium flex items-center gap-1"><Activity className="w-3 h-3"/> {(s.sampleCount / (s.samplingRate || 30)).toFixed(1)}s</span>
                     </div>
                 </div>
                 
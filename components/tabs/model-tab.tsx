@@ -1,21 +1,27 @@
 'use client';
 
-import React, { useEffect, useState } from 'react';
-import { RecordingSession, SignalStorage, preprocessPPG, extractFeatures, performMathEstimation } from '@/lib/signal-processing';
-import * as ort from 'onnxruntime-web';
-import { Settings, RefreshCw, CheckCircle, Activity, Loader2, AlertTriangle } from 'lucide-react';
+import React, { useContext, useEffect, useState } from 'react';
+import { preprocessPPG, extractFeatures, filterConfigForRate, performMathEstimation } from '@/lib/signal-processing';
+import { SignalStorage, SessionSummary } from '@/lib/signal-storage';
+import { AppSettingsContext } from '@/lib/app-context';
+import { CalibrationStore, CalibrationProfile, CALIBRATION_MAX_AGE_DAYS, CALIBRATION_TARGETS, applyCalibration } from '@/lib/calibration';
+import { resampleUniform } from '@/lib/resampling';
+import { ModelRegistry, ModelManifest, checkModelInput, DEFAULT_MODEL_ID } from '@/lib/model-registry';
+import { getInferenceService, modelKey, useModelStatuses, BatchResult } from '@/lib/inference-service';
+import { predictWithUncertainty, recalibrate, halfWidth } from '@/lib/uncertainty';
+import { Settings, RefreshCw, CheckCircle, Activity, Loader2, AlertTriangle, Trash2, Upload, Layers } from 'lucide-react';
 
-if (typeof window !== 'undefined') {
-    ort.env.wasm.wasmPaths = "/";
-    ort.env.wasm.numThreads = 1; 
-}
-
-const MODEL_PATH = "/Ok_ppg_bp_glucose_final.onnx";
+const TARGET_LABELS = { sbp: 'SBP', dbp: 'DBP', glucose: 'Glu' };
 
 export default function ModelTab() {
-  const [session, setSession] = useState<ort.InferenceSession | null>(null);
-  const [loadingStatus, setLoadingStatus] = useState<"idle" | "loading" | "success" | "error">("idle");
-  const [recordings, setRecordings] = useState<RecordingSession[]>([]);
+  const { settings, updateSettings } = useContext(AppSettingsContext);
+  const [models, setModels] = useState<ModelManifest[]>([]);
+  const [model, setModel] = useState<ModelManifest | null>(null);
+  const [compareId, setCompareId] = useState('');
+  const [modelFile, setModelFile] = useState<File | null>(null);
+  const [manifestFile, setManifestFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [recordings, setRecordings] = useState<SessionSummary[]>([]);
   const [selectedRecId, setSelectedRecId] = useState<string>('');
   
   const [age, setAge] = useState(30);
@@ -25,52 +31,106 @@ export default function ModelTab() {
   const [refSBP, setRefSBP] = useState(120);
   const [refDBP, setRefDBP] = useState(80);
   const [refGlu, setRefGlu] = useState(100);
-  const [offsets, setOffsets] = useState({ sbp: 0, dbp: 0, glu: 0 });
+  const [profile, setProfile] = useState<CalibrationProfile | null>(null);
 
   const [result, setResult] = useState<any>(null);
+  const [batchProgress, setBatchProgress] = useState<{ done: number; total: number } | null>(null);
+  const [batchResults, setBatchResults] = useState<BatchResult[]>([]);
   const [logs, setLogs] = useState<string[]>([]);
 
   const log = (m: string) => setLogs(p => [m, ...p].slice(0, 50));
 
+  // Load state comes from the shared inference service
+  const statuses = useModelStatuses();
+  const status = model ? statuses[modelKey(model)] : undefined;
+  const loadingStatus = !model ? (status ? "loading" : "idle") : status?.state === 'ready' ? "success" : status?.state ?? "loading";
+  const compareModel = models.find(m => m.id === compareId && statuses[modelKey(m)]?.state === 'ready') ?? null;
+
   useEffect(() => {
     const init = async () => {
-        const recs = await new SignalStorage().getSessions();
+        const recs = await new SignalStorage().getSessionSummaries();
         const sortedRecs = recs.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
         setRecordings(sortedRecs);
+    };
+    init();
+  }, []);
 
-        const saved = localStorage.getItem('calibration_offsets');
-        if (saved) setOffsets(JSON.parse(saved));
-
+  useEffect(() => {
+    const load = async () => {
+        setModel(null);
         try {
-            setLoadingStatus("loading");
-            log(`Auto-loading Model: ${MODEL_PATH}...`);
-            const s = await ort.InferenceSession.create(MODEL_PATH, { executionProviders: ['wasm'] });
-            setSession(s);
-            setLoadingStatus("success");
-            log("System Ready: Model Loaded Successfully");
+            const registry = new ModelRegistry();
+            setModels(await registry.getModels());
+            const manifest = await registry.getModel(settings.activeModelId);
+            setModel(manifest);
+            log(`Auto-loading Model: ${manifest.name} v${manifest.version}...`);
+            await getInferenceService().load(manifest);
+            log(`System Ready: Model Loaded (${getInferenceService().getStatus(manifest)?.backend})`);
         } catch (err: any) {
             console.error(err);
-            setLoadingStatus("error");
             log(`Model Load Failed: ${err.message}`);
         }
     };
-    init();
-  }, []);
+    load();
+  }, [settings.activeModelId]);
+
+  // Second model run side by side with the active one
+  useEffect(() => {
+    const manifest = models.find(m => m.id === compareId);
+    if (!manifest) return;
+    log(`Loading comparison model: ${manifest.name} v${manifest.version}...`);
+    getInferenceService().load(manifest).catch((err: any) => {
+        log(`Comparison Model Load Failed: ${err.message}`);
+        setCompareId('');
+    });
+  }, [compareId]);
+
+  const importModel = async () => {
+    if (!modelFile || !manifestFile) return alert("Choose an .onnx file and its manifest (.json).");
+    setImporting(true);
+    try {
+        const registry = new ModelRegistry();
+        const manifest = await registry.importModel(modelFile, manifestFile);
+        // A re-imported id may reuse the version string; drop any stale session
+        await getInferenceService().release(manifest);
+        setModels(await registry.getModels());
+        setModelFile(null);
+        setManifestFile(null);
+        log(`✅ Imported ${manifest.name} v${manifest.version}`);
+    } catch (err: any) {
+        log(`Import Failed: ${err.message}`);
+        alert(`Import failed: ${err.message}`);
+    } finally {
+        setImporting(false);
+    }
+  };
+
+  const deleteModel = async (m: ModelManifest) => {
+    if (!confirm(`Delete ${m.name} v${m.version} from this device?`)) return;
+    const registry = new ModelRegistry();
+    await registry.deleteModel(m.id);
+    await getInferenceService().release(m);
+    setModels(await registry.getModels());
+    if (compareId === m.id) setCompareId('');
+    if (settings.activeModelId === m.id) updateSettings({ activeModelId: DEFAULT_MODEL_ID });
+    log(`Deleted ${m.name}`);
+  };
 
   const runModel = async () => {
-    if (!session) return alert("Model is not loaded.");
+    if (!model || loadingStatus !== "success") return alert("Model is not loaded.");
     if (!selectedRecId) return alert("Please select a recording first.");
-    const rec = recordings.find(r => r.id === selectedRecId);
+    const rec = await new SignalStorage().getSession(selectedRecId);
     if (!rec) return;
 
     try {
         log("Starting Analysis...");
-        const rawValues = rec.rawSignal.map(x => x.value);
-        const processed = preprocessPPG(rawValues);
+        const { values: rawValues, timing } = resampleUniform(rec.rawSignal, rec.samplingRate);
+        log(`Timing: ${timing.effectiveRate.toFixed(1)} Hz, jitter ${timing.jitterMs.toFixed(1)} ms, ${timing.droppedFrames} dropped`);
+        const processed = preprocessPPG(rawValues, filterConfigForRate(settings.filterConfig, rec.samplingRate));
         
         let feats: number[];
         try {
-            feats = extractFeatures(processed);
+            feats = extractFeatures(processed, rec.samplingRate);
             log("Features Extracted");
         } catch (e: any) {
             log(`Feature Error: ${e.message}`);
@@ -80,44 +140,110 @@ export default function ModelTab() {
         // Math Estimation (Estimated)
         const mathEst = performMathEstimation(feats, age, height, weight);
 
-        // ONNX Model (Predicted)
-        const inputData = [...feats, age, height, weight];
-        const tensor = new ort.Tensor('float32', Float32Array.from(inputData), [1, 21]);
-        const feeds: any = {};
-        feeds[session.inputNames[0]] = tensor;
-        
-        const out = await session.run(feeds);
-        const outputData = out[session.outputNames[0]].data as Float32Array; 
-        
+        // ONNX Model (Predicted); non-finite inputs stop here, out-of-range ones are logged
+        const issues = checkModelInput(model, feats, { age, height, weight });
+        issues.forEach(i => log(`${i.severity === 'error' ? 'Input Error' : 'Input Warning'}: ${i.message}`));
+        if (issues.some(i => i.severity === 'error')) return;
+        const calib = rec.patientId ? await new CalibrationStore().getProfile(rec.patientId, model.id) : null;
+        setProfile(calib);
+        if (calib?.expired) log(`Calibration older than ${CALIBRATION_MAX_AGE_DAYS} days - not applied`);
+
+        // Every available model runs for the ensemble spread
+        const { raw: predicted, uncertainty, others } = await predictWithUncertainty(model, feats, { age, height, weight }, {
+            filtered: processed,
+            fs: rec.samplingRate,
+            qualityScore: rec.qualityReport?.score,
+            ensemble: models,
+            profile: calib
+        });
+        log(`Uncertainty: ${uncertainty.windows} windows, ${uncertainty.models} models, quality x${uncertainty.qualityFactor.toFixed(2)}`);
+
+        const raw = { sbp: predicted.sbp, dbp: predicted.dbp, glucose: predicted.glucose };
+        const cal = applyCalibration(raw, calib);
+        // Comparison model: uncalibrated (reference readings were fitted to the active model)
+        let compare = null;
+        const other = others.find(o => o.model.id === compareModel?.id)?.output;
+        if (compareModel && other) {
+            compare = { name: `${compareModel.name} v${compareModel.version}`, sbp: other.sbp, dbp: other.dbp, glu: other.glucose };
+        }
+
         const final = {
             math: { sbp: mathEst.sbp, dbp: mathEst.dbp, glu: mathEst.glucose },
-            pred: { 
-                sbp: outputData[0] + offsets.sbp, 
-                dbp: outputData[1] + offsets.dbp, 
-                glu: outputData[2] + offsets.glu 
-            },
-            raw: { sbp: outputData[0], dbp: outputData[1], glu: outputData[2] }
+            pred: { sbp: cal.sbp, dbp: cal.dbp, glu: cal.glucose },
+            raw: { sbp: raw.sbp, dbp: raw.dbp, glu: raw.glucose },
+            uncertainty,
+            compare,
+            modelId: model.id
         };
 
         setResult(final);
-        log(`Done: AI SBP=${final.pred.sbp.toFixed(0)}`);
+        log(`Done: AI SBP=${final.pred.sbp.toFixed(0)} (${model.name} v${model.version})`);
 
     } catch (err: any) {
         log(`System Error: ${err.message}`);
     }
   };
 
-  const calibrate = () => {
+  // Active model over every stored session with extracted features (uncalibrated)
+  const runBatch = async () => {
+    if (!model || loadingStatus !== "success") return alert("Model is not loaded.");
+    const items = recordings.filter(r => r.features?.length).map(r => ({
+        id: r.id,
+        features: r.features!,
+        demographics: { age: r.age ?? 30, height: r.height ?? 170, weight: r.weight ?? 70 }
+    }));
+    if (items.length === 0) return alert("No stored sessions have extracted features.");
+    log(`Batch: ${items.length} sessions on ${model.name} v${model.version}...`);
+    setBatchResults([]);
+    try {
+        const results = await getInferenceService().predictBatch(model, items, (done, total) => setBatchProgress({ done, total }));
+        setBatchResults(results);
+        log(`Batch done: ${results.filter(r => r.output).length} predicted, ${results.filter(r => r.error).length} failed`);
+    } catch (err: any) {
+        log(`Batch Failed: ${err.message}`);
+    } finally {
+        setBatchProgress(null);
+    }
+  };
+
+  const selectedRec = recordings.find(r => r.id === selectedRecId);
+
+  // Calibration is per patient and per model, so switching either reloads it
+  useEffect(() => {
+    setProfile(null);
+    const patientId = selectedRec?.patientId;
+    if (!patientId || !model) return;
+    let cancelled = false;
+    new CalibrationStore().getProfile(patientId, model.id).then(p => { if (!cancelled) setProfile(p); });
+    return () => { cancelled = true; };
+  }, [selectedRec?.patientId, model?.id]);
+
+  // Adds a reference reading for the recording's patient and refits
+  const calibrate = async () => {
     if(!result) return;
-    const newOffsets = {
-        sbp: refSBP - result.raw.sbp,
-        dbp: refDBP - result.raw.dbp,
-        glu: refGlu - result.raw.glu
-    };
-    setOffsets(newOffsets);
-    localStorage.setItem('calibration_offsets', JSON.stringify(newOffsets));
-    setResult({ ...result, pred: { sbp: refSBP, dbp: refDBP, glu: refGlu } });
-    log(`✅ Calibrated using reference values.`);
+    if(!selectedRec?.patientId) return alert("This recording has no patient. Calibration is stored per patient.");
+    const store = new CalibrationStore();
+    await store.addPoint({
+        patientId: selectedRec.patientId,
+        sessionId: selectedRec.id,
+        modelId: result.modelId,
+        timestamp: Date.now(),
+        predicted: { sbp: result.raw.sbp, dbp: result.raw.dbp, glucose: result.raw.glu },
+        reference: { sbp: refSBP, dbp: refDBP, glucose: refGlu }
+    });
+    const calib = await store.getProfile(selectedRec.patientId, result.modelId);
+    setProfile(calib);
+    const rawValues = { sbp: result.raw.sbp, dbp: result.raw.dbp, glucose: result.raw.glu };
+    const cal = applyCalibration(rawValues, calib);
+    setResult({ ...result, pred: { sbp: cal.sbp, dbp: cal.dbp, glu: cal.glucose }, uncertainty: recalibrate(result.uncertainty, rawValues, calib) });
+    log(`✅ Calibration point added (${calib.active.length} active) for ${selectedRec.patientName || selectedRec.patientId}.`);
+  };
+
+  const deleteCalibrationPoint = async (id: number) => {
+    if(!selectedRec?.patientId || !confirm("Remove this reference reading?")) return;
+    const store = new CalibrationStore();
+    await store.deletePoint(id);
+    if (model) setProfile(await store.getProfile(selectedRec.patientId, model.id));
   };
 
   return (
@@ -134,14 +260,47 @@ export default function ModelTab() {
                 <h3 className="font-bold text-sm">Vital Analysis AI</h3>
                 <p className="text-xs text-muted-foreground">
                     {loadingStatus === 'loading' && "Loading Model..."}
-                    {loadingStatus === 'success' && "Model Ready"}
-                    {loadingStatus === 'error' && "Model Not Found"}
+                    {loadingStatus === 'success' && model && `${model.name} v${model.version} (${status?.backend === 'worker' ? 'worker' : 'main thread'})`}
+                    {loadingStatus === 'error' && (status?.error ?? "Model Not Found")}
                     {loadingStatus === 'idle' && "Initializing..."}
                 </p>
             </div>
           </div>
        </div>
 
+       <div className="space-y-1">
+           <label className="text-xs text-muted-foreground ml-1">Active Model</label>
+           <select value={model?.id ?? settings.activeModelId} onChange={e => updateSettings({ activeModelId: e.target.value })} disabled={loadingStatus === 'loading'} className="w-full border p-3 rounded bg-background">
+             {models.map(m => <option key={m.id} value={m.id}>{m.name} v{m.version}</option>)}
+           </select>
+           {model && (
+               <p className="text-[10px] text-muted-foreground ml-1">
+                   {model.input.features.length} inputs{model.input.normalization ? ' (z-scored)' : ''} → {model.output.values.map(o => `${o.name} (${o.unit})`).join(', ')}
+               </p>
+           )}
+           <select value={compareId} onChange={e => setCompareId(e.target.value)} className="w-full border p-2 rounded bg-background text-sm">
+             <option value="">Compare with: none</option>
+             {models.filter(m => m.id !== model?.id).map(m => <option key={m.id} value={m.id}>Compare with: {m.name} v{m.version}</option>)}
+           </select>
+       </div>
+
+       <div className="bg-card border p-3 rounded-lg space-y-2 text-xs">
+           <h4 className="font-bold flex gap-2 items-center"><Upload className="w-4 h-4"/> Import Model</h4>
+           <div className="grid grid-cols-2 gap-2">
+               <label className="space-y-1"><span className="text-muted-foreground">Model (.onnx)</span><input type="file" accept=".onnx" onChange={e => setModelFile(e.target.files?.[0] ?? null)} className="w-full text-xs"/></label>
+               <label className="space-y-1"><span className="text-muted-foreground">Manifest (.json)</span><input type="file" accept=".json,application/json" onChange={e => setManifestFile(e.target.files?.[0] ?? null)} className="w-full text-xs"/></label>
+           </div>
+           <button onClick={importModel} disabled={!modelFile || !manifestFile || importing} className="w-full bg-slate-800 text-white p-2 rounded hover:bg-slate-700 disabled:opacity-50 flex justify-center items-center gap-2">
+               {importing ? <Loader2 className="w-4 h-4 animate-spin"/> : 'Validate & Import'}
+           </button>
+           {models.filter(m => m.origin === 'imported').map(m => (
+               <div key={m.id} className="flex items-center justify-between bg-background p-2 rounded border">
+                   <span>{m.name} <span className="text-muted-foreground">v{m.version} ({m.id})</span></span>
+                   <button onClick={() => deleteModel(m)} className="text-destructive"><Trash2 className="w-3 h-3"/></button>
+               </div>
+           ))}
+       </div>
+
        <div className="grid grid-cols-3 gap-2">
          <div className="space-y-1"><label className="text-xs text-muted-foreground ml-1">Age</label><input type="number" value={age} onChange={e=>setAge(+e.target.value)} className="w-full border p-2 rounded bg-background text-center"/></div>
          <div className="space-y-1"><label className="text-xs text-muted-foreground ml-1">Height (cm)</label><input type="number" value={height} onChange={e=>setHeight(+e.target.value)} className="w-full border p-2 rounded bg-background text-center"/></div>
@@ -152,6 +311,7 @@ export default function ModelTab() {
            <label className="text-xs text-muted-foreground ml-1">Select Measurement Session</label>
            <select onChange={e=>{
                setSelectedRecId(e.target.value);
+               setResult(null);
                const rec = recordings.find(r => r.id === e.target.value);
                if(rec) {
                    if(rec.age) setAge(rec.age);
@@ -164,10 +324,31 @@ export default function ModelTab() {
            </select>
        </div>
 
-       <button onClick={runModel} disabled={!session || !selectedRecId} className="w-full bg-blue-600 hover:bg-blue-700 text-white p-3 rounded font-bold disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-lg">
+       <button onClick={runModel} disabled={loadingStatus !== 'success' || !selectedRecId} className="w-full bg-blue-600 hover:bg-blue-700 text-white p-3 rounded font-bold disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-lg">
           ANALYZE VITALS
        </button>
 
+       <div className="bg-card border p-3 rounded-lg space-y-2 text-xs">
+           <button onClick={runBatch} disabled={loadingStatus !== 'success' || !!batchProgress} className="w-full bg-slate-800 text-white p-2 rounded hover:bg-slate-700 disabled:opacity-50 flex justify-center items-center gap-2">
+               {batchProgress ? <><Loader2 className="w-4 h-4 animate-spin"/> {batchProgress.done} / {batchProgress.total}</> : <><Layers className="w-4 h-4"/> Run on All Stored Sessions</>}
+           </button>
+           {batchResults.length > 0 && (
+               <div className="max-h-48 overflow-auto space-y-1">
+                   <p className="text-muted-foreground">Uncalibrated {model?.name} predictions from stored features</p>
+                   {batchResults.map(r => (
+                       <div key={r.id} className="flex items-center justify-between bg-background p-2 rounded border">
+                           <span>{r.id} <span className="text-muted-foreground">{recordings.find(rec => rec.id === r.id)?.patientName}</span></span>
+                           {r.output ? (
+                               <span className="font-mono">{r.output.sbp.toFixed(0)}/{r.output.dbp.toFixed(0)} · {r.output.glucose.toFixed(1)}{r.issues.length > 0 && <AlertTriangle className="w-3 h-3 inline ml-1 text-yellow-500"/>}</span>
+                           ) : (
+                               <span className="text-red-500" title={r.issues.map(i => i.message).join('; ')}>{r.error}</span>
+                           )}
+                       </div>
+                   ))}
+               </div>
+           )}
+       </div>
+
        {result && (
          <div className="bg-slate-100 dark:bg-slate-900 border p-4 rounded-lg space-y-4 animate-in fade-in slide-in-from-bottom-2">
             <h3 className="text-center text-xs font-bold uppercase text-muted-foreground tracking-widest bg-muted/50 p-1 rounded">Estimated (Math) vs Predicted (AI)</h3>
@@ -178,6 +359,7 @@ export default function ModelTab() {
                     <div className="flex flex-col items-center bg-muted/30 py-1 rounded">
                         <span className="text-xs line-through text-muted-foreground">{result.math.glu}</span>
                         <span className="text-xl font-bold text-orange-600">{result.pred.glu.toFixed(1)}</span>
+                        <span className="text-[10px] font-mono text-muted-foreground">±{halfWidth(result.uncertainty.intervals.glucose).toFixed(1)}</span>
                     </div>
                 </div>
                 <div className="bg-background p-2 rounded shadow-sm border space-y-2">
@@ -185,6 +367,7 @@ export default function ModelTab() {
                     <div className="flex flex-col items-center bg-muted/30 py-1 rounded">
                         <span className="text-xs line-through text-muted-foreground">{result.math.sbp}</span>
                         <span className="text-xl font-bold text-blue-600">{result.pred.sbp.toFixed(0)}</span>
+                        <span className="text-[10px] font-mono text-muted-foreground">±{halfWidth(result.uncertainty.intervals.sbp).toFixed(0)}</span>
                     </div>
                 </div>
                 <div className="bg-background p-2 rounded shadow-sm border space-y-2">
@@ -192,9 +375,20 @@ export default function ModelTab() {
                     <div className="flex flex-col items-center bg-muted/30 py-1 rounded">
                         <span className="text-xs line-through text-muted-foreground">{result.math.dbp}</span>
                         <span className="text-xl font-bold text-green-600">{result.pred.dbp.toFixed(0)}</span>
+                        <span className="text-[10px] font-mono text-muted-foreground">±{halfWidth(result.uncertainty.intervals.dbp).toFixed(0)}</span>
                     </div>
                 </div>
             </div>
+
+            <p className="text-[10px] text-center text-muted-foreground">
+                ± {Math.round(result.uncertainty.level * 100)}% range: quality x{result.uncertainty.qualityFactor.toFixed(2)}, {result.uncertainty.windows} windows{result.uncertainty.models > 1 ? `, ${result.uncertainty.models}-model spread` : ''}
+            </p>
+
+            {result.compare && (
+                <p className="text-xs text-center text-muted-foreground">
+                    {result.compare.name} (uncalibrated): SBP <span className="font-mono font-bold text-foreground">{result.compare.sbp.toFixed(0)}</span> • DBP <span className="font-mono font-bold text-foreground">{result.compare.dbp.toFixed(0)}</span> • Glu <span className="font-mono font-bold text-foreground">{result.compare.glu.toFixed(1)}</span>
+                </p>
+            )}
             
             <div className="border-t pt-4">
                 <h4 className="text-sm font-bold flex gap-2 items-center mb-3"><Settings className="w-4 h-4"/> Calibration (Reference)</h4>
@@ -207,6 +401,42 @@ export default function ModelTab() {
                     <button onClick={calibrate} className="bg-slate-800 text-white p-2 rounded hover:bg-slate-700"><RefreshCw className="w-5 h-5"/></button>
                 </div>
             </div>
+
+            {profile && profile.points.length > 0 && (
+                <div className="border-t pt-4 space-y-3 text-xs">
+                    <div className="flex justify-between">
+                        <span className="font-bold">{profile.active.length} active reference reading{profile.active.length === 1 ? '' : 's'}</span>
+                        <span className={profile.expired ? 'text-red-500 font-bold' : 'text-muted-foreground'}>
+                            {profile.expired ? 'Expired' : 'Last'} {profile.ageDays! < 1 ? 'today' : `${Math.floor(profile.ageDays!)} d ago`}
+                        </span>
+                    </div>
+                    {profile.expired && <p className="text-red-500">Calibration is older than {CALIBRATION_MAX_AGE_DAYS} days and is not applied. Add a new reference reading.</p>}
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                        {CALIBRATION_TARGETS.map(t => (
+                            <div key={t} className="bg-background p-2 rounded border">
+                                <p className="text-[10px] uppercase text-muted-foreground">{TARGET_LABELS[t]}</p>
+                                <p className="font-mono">{profile.fits[t].slope.toFixed(2)}x {profile.fits[t].offset >= 0 ? '+' : '-'} {Math.abs(profile.fits[t].offset).toFixed(1)}</p>
+                                <p className="text-muted-foreground">RMSE {profile.fits[t].rmse.toFixed(1)}</p>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="space-y-1">
+                        {profile.points.map(p => {
+                            const i = profile.active.indexOf(p);
+                            return (
+                                <div key={p.id} className={`flex items-center justify-between bg-background p-2 rounded border ${i < 0 ? 'opacity-50' : ''}`}>
+                                    <span className="text-muted-foreground">{new Date(p.timestamp).toLocaleDateString()}</span>
+                                    <span className="font-mono">{p.reference.sbp}/{p.reference.dbp} · {p.reference.glucose}</span>
+                                    <span className="font-mono text-muted-foreground">
+                                        {i < 0 ? 'stale' : CALIBRATION_TARGETS.map(t => profile.fits[t].residuals[i].toFixed(1)).join(' / ')}
+                                    </span>
+                                    <button onClick={() => p.id !== undefined && deleteCalibrationPoint(p.id)} className="text-destructive"><Trash2 className="w-3 h-3"/></button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
          </div>
        )}
 
@@ -1,32 +1,76 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
-import { RPPGAcquisition } from '@/lib/camera-utils'; 
-import { SignalStorage, RecordingSession, preprocessPPG, extractFeatures, performMathEstimation } from '@/lib/signal-processing';
+import { useContext, useEffect, useRef, useState } from 'react';
+import { RPPGAcquisition, FrameStats, FingerContact, assessFingerContact } from '@/lib/camera-utils'; 
+import { RecordingSession, SignalSample, preprocessPPG, extractFeatures, performMathEstimation } from '@/lib/signal-processing';
+import { SignalStorage } from '@/lib/signal-storage';
 import SignalVisualizer from '@/components/visualization/signal-visualizer';
-import { Pause, Play, Save, Zap, ZapOff, Timer, User, X, Activity, Loader2, CheckCircle } from 'lucide-react';
-import * as ort from 'onnxruntime-web';
-
-if (typeof window !== 'undefined') {
-    ort.env.wasm.wasmPaths = "/";
-    ort.env.wasm.numThreads = 1; 
-}
+import { AppSettingsContext } from '@/lib/app-context';
+import { assessSignalQuality, qualityDecision } from '@/lib/signal-quality';
+import { Patient, PatientDraft, PatientRegistry, emptyPatientDraft, ageFromDateOfBirth } from '@/lib/patient-registry';
+import PatientForm from '@/components/patients/patient-form';
+import { CalibrationStore, applyCalibration } from '@/lib/calibration';
+import { resampleUniform, MAX_DROP_FRACTION } from '@/lib/resampling';
+import { SignalSource, SourceKind, SourceSample, CameraSource, SyntheticSource, ReplaySource, SyntheticOptions, DEFAULT_SYNTHETIC_OPTIONS, loadSignalFile } from '@/lib/signal-sources';
+import { SessionSummary } from '@/lib/signal-storage';
+import { StreamingProcessor, LiveVitals } from '@/lib/stream-processing';
+import { ProtocolTracker, ProtocolProgress, RECORDING_PROTOCOLS, MIN_RECORDING_SEC, getProtocol } from '@/lib/recording-protocol';
+import { Pause, Play, Save, Zap, ZapOff, Timer, User, X, Activity, Loader2, CheckCircle, Heart } from 'lucide-react';
+import { ModelRegistry, ModelManifest, modelStamp } from '@/lib/model-registry';
+import { getInferenceService } from '@/lib/inference-service';
+import { PredictionUncertainty, predictWithUncertainty, halfWidth } from '@/lib/uncertainty';
+import { FeatureIssue, toFeatureVector, validateFeatures } from '@/lib/feature-schema';
+
+// Finger must stay in place this long before auto-start
+const CONTACT_STABLE_MS = 2000;
+const CONTACT_POLL_MS = 200;
+// Live HR / quality refresh while recording
+const VITALS_INTERVAL_MS = 1000;
+
+const LAST_PATIENT_KEY = 'ppg_last_patient_id';
+
+const CONTACT_UI: Record<FingerContact, { text: string; dot: string }> = {
+  'finger-detected': { text: 'Finger detected', dot: 'bg-green-500' },
+  'press-lighter': { text: 'Press lighter', dot: 'bg-yellow-400' },
+  'too-dark': { text: 'Too dark', dot: 'bg-orange-500' },
+  'no-finger': { text: 'Cover camera & torch', dot: 'bg-red-500' },
+};
 
 export default function RecordingTab() {
+  const { settings, updateSettings } = useContext(AppSettingsContext);
+  const protocol = getProtocol(settings.recordingProtocol);
+  const fs = settings.filterConfig.samplingRate;
   const videoRef = useRef<HTMLVideoElement>(null);
-  const recordingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const sourceRef = useRef<SignalSource | null>(null);
+  const stopRef = useRef<() => void>(() => {});
 
   const [isRecording, setIsRecording] = useState(false);
   const [visRaw, setVisRaw] = useState<number[]>([]);
+  const [visFiltered, setVisFiltered] = useState<number[]>([]);
+  const [liveVitals, setLiveVitals] = useState<LiveVitals | null>(null);
+  const [progress, setProgress] = useState<ProtocolProgress | null>(null);
   const [recordingTime, setRecordingTime] = useState(0);
   const [isTorchOn, setIsTorchOn] = useState(false);
   const [statusMsg, setStatusMsg] = useState("Ready");
+  const [contact, setContact] = useState<FingerContact | null>(null);
+  const [contactStable, setContactStable] = useState(false);
+  const [isArmed, setIsArmed] = useState(false);
+  const contactSinceRef = useRef<number | null>(null);
+
+  // Input source (camera, or synthetic / replay for demos and regression runs)
+  const [sourceKind, setSourceKind] = useState<SourceKind>('camera');
+  const [syntheticOptions, setSyntheticOptions] = useState<SyntheticOptions>({ ...DEFAULT_SYNTHETIC_OPTIONS, samplingRate: fs });
+  const [replay, setReplay] = useState<{ label: string; samples: SignalSample[] } | null>(null);
+  const [storedSessions, setStoredSessions] = useState<SessionSummary[]>([]);
   
   const [showUserForm, setShowUserForm] = useState(false);
-  const [userDetails, setUserDetails] = useState({ name: '', age: '30', height: '170', weight: '70' });
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [patientDraft, setPatientDraft] = useState<PatientDraft>(emptyPatientDraft());
+  const [activePatient, setActivePatient] = useState<Patient | null>(null);
 
   const [showResults, setShowResults] = useState(false);
   const [extractedFeatures, setExtractedFeatures] = useState<number[] | null>(null);
+  const [featureIssues, setFeatureIssues] = useState<FeatureIssue[]>([]);
   const [pendingSession, setPendingSession] = useState<RecordingSession | null>(null);
   
   // Step 1 Results (Pre-Model - Math Estimated)
@@ -35,26 +79,84 @@ export default function RecordingTab() {
   // Step 2 Results (Post-Model - AI Predicted)
   const [isInferencing, setIsInferencing] = useState(false);
   const [modelResults, setModelResults] = useState<{sbp:number, dbp:number, glucose:number} | null>(null);
+  const [uncertainty, setUncertainty] = useState<PredictionUncertainty | null>(null);
   const [isSaved, setIsSaved] = useState(false);
 
   const recordedSamplesRef = useRef<{ timestamp: number; value: number }[]>([]);
+  // Preprocessed recording, kept for the sliding-window uncertainty estimate
+  const filteredRef = useRef<number[] | null>(null);
   const rpPgRef = useRef<RPPGAcquisition | null>(null);
+  const streamRef = useRef<StreamingProcessor | null>(null);
+  const manifestRef = useRef<Promise<ModelManifest> | null>(null);
+  const trackerRef = useRef<ProtocolTracker | null>(null);
 
   useEffect(() => {
-    const savedDetails = localStorage.getItem('ppg_user_details');
-    if (savedDetails) {
-        try { setUserDetails(JSON.parse(savedDetails)); } catch(e) {}
-    }
-    ort.InferenceSession.create("/Ok_ppg_bp_glucose_final.onnx", { executionProviders: ['wasm'] })
-       .catch(e => console.error("ONNX Pre-Load Error", e));
-
     initCamera();
     return () => stopCamera();
   }, []);
 
+  // Pre-load the active model in the shared service; a failed load is retried on Save & Analyze
+  useEffect(() => {
+    const manifest = new ModelRegistry().getModel(settings.activeModelId);
+    manifestRef.current = manifest;
+    manifest.then(m => getInferenceService().load(m)).catch(e => {
+      console.error("ONNX Pre-Load Error", e);
+      if (manifestRef.current === manifest) manifestRef.current = null;
+    });
+  }, [settings.activeModelId]);
+
+  // Placement feedback while idle (recording updates contact per sample)
+  useEffect(() => {
+    if (isRecording || sourceKind !== 'camera') return;
+    const id = setInterval(() => {
+      if (!rpPgRef.current || !videoRef.current) return;
+      const stats = rpPgRef.current.extractFrame(videoRef.current);
+      if (stats) updateContact(stats);
+    }, CONTACT_POLL_MS);
+    return () => clearInterval(id);
+  }, [isRecording, sourceKind]);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const id = setInterval(() => {
+      const samples = recordedSamplesRef.current;
+      if (!streamRef.current || samples.length === 0) return;
+      const vitals = streamRef.current.getVitals();
+      setLiveVitals(vitals);
+      if (!trackerRef.current) return;
+      // Auto-stop once the protocol target is reached (or it runs out of time)
+      const next = trackerRef.current.update(samples[samples.length - 1].timestamp, vitals);
+      setProgress(next);
+      if (next.done || next.timedOut) stopRef.current();
+    }, VITALS_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [isRecording]);
+
+  useEffect(() => {
+    if (sourceKind === 'replay') new SignalStorage().getSessionSummaries().then(setStoredSessions);
+  }, [sourceKind]);
+
+  stopRef.current = () => { stopAndAnalyze(); };
+
+  useEffect(() => {
+    if (isArmed && contactStable) {
+      setIsArmed(false);
+      beginRecording();
+    }
+  }, [isArmed, contactStable]);
+
+  const updateContact = (stats: FrameStats) => {
+    const state = assessFingerContact(stats);
+    const now = Date.now();
+    if (state !== 'finger-detected') contactSinceRef.current = null;
+    else if (contactSinceRef.current === null) contactSinceRef.current = now;
+    setContact(state);
+    setContactStable(contactSinceRef.current !== null && now - contactSinceRef.current >= CONTACT_STABLE_MS);
+  };
+
   const initCamera = async () => {
     try {
-      rpPgRef.current = new RPPGAcquisition(30);
+      rpPgRef.current = new RPPGAcquisition(fs);
       const stream = await rpPgRef.current.requestCameraPermission();
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
@@ -68,61 +170,122 @@ export default function RecordingTab() {
   };
 
   const stopCamera = () => {
-    if (recordingIntervalRef.current) clearInterval(recordingIntervalRef.current);
+    sourceRef.current?.stop();
     rpPgRef.current?.stop();
   };
 
-  const handleStartClick = () => {
-    if (!videoRef.current || videoRef.current.readyState < 2) return alert("Wait for camera to load...");
+  const handleStartClick = async () => {
+    if (sourceKind === 'camera' && (!videoRef.current || videoRef.current.readyState < 2)) return alert("Wait for camera to load...");
+    if (sourceKind === 'replay' && !replay) return alert("Choose a file or session to replay.");
+    const list = await new PatientRegistry().getPatients();
+    const last = list.find(p => p.id === localStorage.getItem(LAST_PATIENT_KEY));
+    setPatients(list);
+    setPatientDraft(last ? { ...last } : emptyPatientDraft());
     setShowUserForm(true);
   };
 
-  const startRecording = () => {
-    if(!userDetails.name || !userDetails.age || !userDetails.height || !userDetails.weight) return alert("Please fill all details");
-    localStorage.setItem('ppg_user_details', JSON.stringify(userDetails));
+  const selectPatient = (id: string) => {
+    const p = patients.find(p => p.id === id);
+    setPatientDraft(p ? { ...p } : emptyPatientDraft());
+  };
+
+  const startRecording = async () => {
+    if (!patientDraft.name.trim()) return alert("Please enter a patient name");
+    try {
+      const patient = await new PatientRegistry().savePatient(patientDraft);
+      localStorage.setItem(LAST_PATIENT_KEY, patient.id);
+      setActivePatient(patient);
+    } catch (e) {
+      console.error("Patient save failed", e);
+      return alert("Failed to save patient.");
+    }
 
     setShowUserForm(false);
+    if (sourceKind === 'camera' && settings.autoStartOnContact && !contactStable) {
+      setIsArmed(true);
+      setStatusMsg("Place finger to start...");
+      return;
+    }
+    beginRecording();
+  };
+
+  const createSource = (): SignalSource | null => {
+    if (sourceKind === 'synthetic') return new SyntheticSource({ ...syntheticOptions, samplingRate: fs });
+    if (sourceKind === 'replay') return replay ? new ReplaySource(replay.samples, replay.label) : null;
+    return videoRef.current ? new CameraSource(videoRef.current, fs) : null;
+  };
+
+  const beginRecording = () => {
+    const source = createSource();
+    if (!source) return;
     recordedSamplesRef.current = [];
+    streamRef.current = new StreamingProcessor(settings.filterConfig);
+    trackerRef.current = new ProtocolTracker(protocol);
     setRecordingTime(0);
     setVisRaw([]);
+    setVisFiltered([]);
+    setLiveVitals(null);
+    setProgress(null);
     setIsRecording(true);
-    setStatusMsg("Recording...");
+    setStatusMsg(source.kind === 'camera' ? "Recording..." : `Recording (${source.label})...`);
     
-    const startTime = Date.now();
-    recordingIntervalRef.current = setInterval(() => {
-      if (!rpPgRef.current || !videoRef.current) return;
-      const val = rpPgRef.current.extractSignal(videoRef.current);
-      const now = Date.now();
-      recordedSamplesRef.current.push({ timestamp: now, value: val });
+    sourceRef.current = source;
+    source.start(({ timestamp, value, stats }: SourceSample) => {
+      if (stats) updateContact(stats);
+      recordedSamplesRef.current.push({ timestamp, value });
       setVisRaw(prev => {
-          const next = [...prev, val];
-          if (next.length > 300) return next.slice(next.length - 300);
+          const next = [...prev, value];
+          if (next.length > 10 * fs) return next.slice(next.length - 10 * fs);
           return next;
       });
-      setRecordingTime((now - startTime) / 1000);
-    }, 1000 / 30); 
+      const out = streamRef.current?.push({ timestamp, value });
+      if (out) setVisFiltered(prev => {
+          const next = [...prev, out.filtered];
+          if (next.length > 10 * fs) return next.slice(next.length - 10 * fs);
+          return next;
+      });
+      setRecordingTime((timestamp - recordedSamplesRef.current[0].timestamp) / 1000);
+    }, () => stopRef.current());
   };
 
   const stopAndAnalyze = async () => {
     setIsRecording(false);
-    if(recordingIntervalRef.current) clearInterval(recordingIntervalRef.current);
+    sourceRef.current?.stop();
     setStatusMsg("Analyzing...");
 
-    if (recordingTime < 10) {
-        alert("Recording too short! Need at least 10 seconds.");
+    const samples = recordedSamplesRef.current;
+    const durationSec = samples.length > 1 ? (samples[samples.length - 1].timestamp - samples[0].timestamp) / 1000 : 0;
+    if (durationSec < MIN_RECORDING_SEC) {
+        alert(`Recording too short! Need at least ${MIN_RECORDING_SEC} seconds.`);
         setStatusMsg("Ready");
         return;
     }
 
     try {
-        const raw = recordedSamplesRef.current.map(s => s.value);
-        const filtered = preprocessPPG(raw);
-        const features = extractFeatures(filtered);
+        const { values: raw, timing } = resampleUniform(recordedSamplesRef.current, fs);
+        const filtered = preprocessPPG(raw, settings.filterConfig);
+        filteredRef.current = filtered;
+
+        const qualityReport = assessSignalQuality(raw, filtered, fs);
+        const decision = qualityDecision(qualityReport);
+        if (decision === 'reject') {
+            alert(`Signal quality too low (${qualityReport.score}/100). Cover the camera and torch fully and try again.`);
+            setStatusMsg("Ready");
+            return;
+        }
+        if (decision === 'warn' && !confirm(`Signal quality is ${qualityReport.label.toLowerCase()} (${qualityReport.score}/100). Analyze anyway?`)) {
+            setStatusMsg("Ready");
+            return;
+        }
+
+        const features = extractFeatures(filtered, fs);
         setExtractedFeatures(features);
         
-        const age = parseFloat(userDetails.age) || 30;
-        const height = parseFloat(userDetails.height) || 170;
-        const weight = parseFloat(userDetails.weight) || 70;
+        const age = ageFromDateOfBirth(activePatient?.dateOfBirth) ?? 30;
+        const height = activePatient?.height || 170;
+        const weight = activePatient?.weight || 70;
+
+        setFeatureIssues(validateFeatures(toFeatureVector(features, { age, height, weight })));
 
         const mathEst = performMathEstimation(features, age, height, weight);
         setInitialResults({
@@ -140,15 +303,19 @@ export default function RecordingTab() {
             id: newId,
             createdAt: new Date(),
             startTime: recordedSamplesRef.current[0]?.timestamp || Date.now(),
-            endTime: Date.now(),
-            samplingRate: 30,
+            endTime: recordedSamplesRef.current[recordedSamplesRef.current.length - 1]?.timestamp || Date.now(),
+            samplingRate: fs,
             rawSignal: recordedSamplesRef.current,
-            patientName: userDetails.name,
+            patientId: activePatient?.id,
+            patientName: activePatient?.name,
             age: age,
             height: height,
             weight: weight,
             features: features,
-            quality: 'Good'
+            quality: qualityReport.label,
+            qualityReport: qualityReport,
+            timing: timing,
+            protocol: trackerRef.current?.result()
         };
 
         setPendingSession(session);
@@ -165,36 +332,31 @@ export default function RecordingTab() {
     setIsInferencing(true);
     
     try {
-        const session = await ort.InferenceSession.create("/Ok_ppg_bp_glucose_final.onnx", { executionProviders: ['wasm'] });
-        
-        const age = parseFloat(userDetails.age) || 30;
-        const height = parseFloat(userDetails.height) || 170;
-        const weight = parseFloat(userDetails.weight) || 70;
-
-        const inputData = [...extractedFeatures, age, height, weight];
-        const tensor = new ort.Tensor('float32', Float32Array.from(inputData), [1, 21]);
-        const feeds: any = {};
-        feeds[session.inputNames[0]] = tensor;
+        if (!manifestRef.current) manifestRef.current = new ModelRegistry().getModel(settings.activeModelId);
+        const manifest = await manifestRef.current;
         
-        const out = await session.run(feeds);
-        const outputData = out[session.outputNames[0]].data as Float32Array; 
-        
-        const savedCalib = localStorage.getItem('calibration_offsets');
-        const offsets = savedCalib ? JSON.parse(savedCalib) : { sbp: 0, dbp: 0, glu: 0 };
-
-        const finalResults = {
-            sbp: outputData[0] + offsets.sbp,
-            dbp: outputData[1] + offsets.dbp,
-            glucose: outputData[2] + offsets.glu,
-        };
+        const { age = 30, height = 170, weight = 70 } = pendingSession;
+        // Expired calibrations have no active points and pass values through
+        const calib = pendingSession.patientId ? await new CalibrationStore().getProfile(pendingSession.patientId, manifest.id) : null;
+        const { raw: predicted, uncertainty } = await predictWithUncertainty(manifest, extractedFeatures, { age, height, weight }, {
+            filtered: filteredRef.current ?? [],
+            fs,
+            qualityScore: pendingSession.qualityReport?.score,
+            ensemble: await new ModelRegistry().getModels().catch(() => []),
+            profile: calib
+        });
+        const finalResults = applyCalibration(predicted, calib);
 
         setModelResults(finalResults);
+        setUncertainty(uncertainty);
 
         const updatedSession = {
             ...pendingSession,
             sbp: finalResults.sbp,
             dbp: finalResults.dbp,
-            glucose: finalResults.glucose
+            glucose: finalResults.glucose,
+            model: modelStamp(manifest),
+            uncertainty
         };
 
         await new SignalStorage().saveSession(updatedSession);
@@ -207,19 +369,39 @@ export default function RecordingTab() {
     }
   };
 
+  const handleReplayFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setReplay({ label: file.name, samples: await loadSignalFile(file) });
+    } catch (e: any) {
+      alert(`Could not read file: ${e.message}`);
+    }
+  };
+
+  const handleReplaySession = async (id: string) => {
+    const s = id ? await new SignalStorage().getSession(id) : null;
+    setReplay(s ? { label: `Session ${s.id}`, samples: s.rawSignal } : null);
+  };
+
   const handleDiscard = () => { if(confirm("Discard this recording?")) resetFlow(); };
 
   const resetFlow = () => {
     setShowResults(false);
     setExtractedFeatures(null);
+    setFeatureIssues([]);
     setPendingSession(null);
     setInitialResults(null);
     setModelResults(null);
+    setUncertainty(null);
     setIsSaved(false);
     setVisRaw([]);
+    setVisFiltered([]);
+    setLiveVitals(null);
+    setProgress(null);
     setRecordingTime(0);
     setStatusMsg("Ready");
     recordedSamplesRef.current = [];
+    filteredRef.current = null;
   };
 
   return (
@@ -227,31 +409,19 @@ export default function RecordingTab() {
       
       {showUserForm && (
         <div className="fixed inset-0 z-50 bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
-            <div className="bg-card w-full max-w-sm rounded-xl border shadow-2xl p-6 space-y-4 animate-in fade-in zoom-in-95">
+            <div className="bg-card w-full max-w-sm max-h-[90vh] overflow-y-auto rounded-xl border shadow-2xl p-6 space-y-4 animate-in fade-in zoom-in-95">
                 <div className="flex justify-between items-center">
                     <h2 className="text-xl font-bold flex items-center gap-2"><User className="w-5 h-5"/> Patient Details</h2>
                     <button onClick={()=>setShowUserForm(false)}><X className="w-5 h-5"/></button>
                 </div>
-                <div className="space-y-3">
-                    <div>
-                        <label className="text-sm font-medium">Name</label>
-                        <input type="text" className="w-full bg-background border rounded p-2" value={userDetails.name} onChange={e => setUserDetails({...userDetails, name: e.target.value})} placeholder="Your Name"/>
-                    </div>
-                    <div className="grid grid-cols-3 gap-2">
-                        <div>
-                            <label className="text-sm font-medium">Age</label>
-                            <input type="number" className="w-full bg-background border rounded p-2" value={userDetails.age} onChange={e => setUserDetails({...userDetails, age: e.target.value})} placeholder="30"/>
-                        </div>
-                        <div>
-                            <label className="text-sm font-medium">Ht (cm)</label>
-                            <input type="number" className="w-full bg-background border rounded p-2" value={userDetails.height} onChange={e => setUserDetails({...userDetails, height: e.target.value})} placeholder="175"/>
-                        </div>
-                        <div>
-                            <label className="text-sm font-medium">Wt (kg)</label>
-                            <input type="number" className="w-full bg-background border rounded p-2" value={userDetails.weight} onChange={e => setUserDetails({...userDetails, weight: e.target.value})} placeholder="70"/>
-                        </div>
-                    </div>
+                <div>
+                    <label className="text-sm font-medium">Patient</label>
+                    <select className="w-full bg-background border rounded p-2" value={patientDraft.id || ''} onChange={e => selectPatient(e.target.value)}>
+                        <option value="">+ New patient</option>
+                        {patients.map(p => <option key={p.id} value={p.id}>{p.name} ({p.id})</option>)}
+                    </select>
                 </div>
+                <PatientForm key={patientDraft.id || 'new'} draft={patientDraft} onChange={setPatientDraft} />
                 <button onClick={startRecording} className="w-full py-3 bg-primary text-primary-foreground rounded-lg font-bold text-lg shadow hover:opacity-90">Confirm & Start</button>
             </div>
         </div>
@@ -265,8 +435,24 @@ export default function RecordingTab() {
                         <Activity className="w-5 h-5" /> Vitals & Analysis
                     </h2>
                     <p className="text-xs text-muted-foreground mt-1">Session: {pendingSession?.id}</p>
+                    {pendingSession?.qualityReport && (
+                        <p className="text-xs mt-1">
+                            Signal Quality: <span className={pendingSession.qualityReport.label === 'Good' ? 'text-green-500 font-bold' : pendingSession.qualityReport.label === 'Acceptable' ? 'text-yellow-500 font-bold' : 'text-red-500 font-bold'}>{pendingSession.qualityReport.label}</span> ({pendingSession.qualityReport.score}/100)
+                        </p>
+                    )}
+                    {pendingSession?.timing && (
+                        <p className={`text-[10px] mt-1 ${pendingSession.timing.dropFraction > MAX_DROP_FRACTION ? 'text-red-500' : 'text-muted-foreground'}`}>
+                            {pendingSession.timing.effectiveRate.toFixed(1)} Hz • jitter {pendingSession.timing.jitterMs.toFixed(1)} ms • {pendingSession.timing.droppedFrames} dropped
+                        </p>
+                    )}
                 </div>
 
+                {featureIssues.length > 0 && (
+                    <div className="px-4 py-2 text-[10px] bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-b">
+                        Unusual inputs: {featureIssues.map(i => i.message).join('; ')}
+                    </div>
+                )}
+
                 <div className="p-6 space-y-6">
                     {/* Top Row: HR & HRV Always Visible */}
                     <div className="grid grid-cols-2 gap-4 text-center border-b pb-4 border-muted">
@@ -304,6 +490,7 @@ export default function RecordingTab() {
                                     <div className="flex flex-col items-center bg-muted/30 p-2 rounded">
                                         <p className="text-sm line-through text-muted-foreground">{initialResults.glucose}</p>
                                         <p className="text-xl font-mono font-bold text-orange-600 dark:text-orange-400">{modelResults.glucose.toFixed(1)}</p>
+                                        {uncertainty && <p className="text-[10px] font-mono text-muted-foreground">±{halfWidth(uncertainty.intervals.glucose).toFixed(1)}</p>}
                                     </div>
                                 </div>
                                 <div className="space-y-2">
@@ -311,6 +498,7 @@ export default function RecordingTab() {
                                     <div className="flex flex-col items-center bg-muted/30 p-2 rounded">
                                         <p className="text-sm line-through text-muted-foreground">{initialResults.sbp}</p>
                                         <p className="text-xl font-mono font-bold text-blue-600 dark:text-blue-400">{modelResults.sbp.toFixed(0)}</p>
+                                        {uncertainty && <p className="text-[10px] font-mono text-muted-foreground">±{halfWidth(uncertainty.intervals.sbp).toFixed(0)}</p>}
                                     </div>
                                 </div>
                                 <div className="space-y-2">
@@ -318,9 +506,15 @@ export default function RecordingTab() {
                                     <div className="flex flex-col items-center bg-muted/30 p-2 rounded">
                                         <p className="text-sm line-through text-muted-foreground">{initialResults.dbp}</p>
                                         <p className="text-xl font-mono font-bold text-green-600 dark:text-green-400">{modelResults.dbp.toFixed(0)}</p>
+                                        {uncertainty && <p className="text-[10px] font-mono text-muted-foreground">±{halfWidth(uncertainty.intervals.dbp).toFixed(0)}</p>}
                                     </div>
                                 </div>
                             </div>
+                            {uncertainty && (
+                                <p className="text-[10px] text-center text-muted-foreground">
+                                    {Math.round(uncertainty.level * 100)}% range from signal quality{uncertainty.qualityScore !== null ? ` (${uncertainty.qualityScore})` : ''}, {uncertainty.windows} window{uncertainty.windows === 1 ? '' : 's'}{uncertainty.models > 1 ? `, ${uncertainty.models} models` : ''}
+                                </p>
+                            )}
                         </div>
                     )}
                 </div>
@@ -343,6 +537,36 @@ export default function RecordingTab() {
         </div>
       )}
 
+      {/* Signal Source */}
+      <div className="bg-card border rounded-lg p-2 space-y-2">
+        <div className="grid grid-cols-3 gap-1">
+          {(['camera', 'synthetic', 'replay'] as SourceKind[]).map(k => (
+            <button key={k} onClick={() => setSourceKind(k)} disabled={isRecording || isArmed} className={`py-1.5 rounded text-xs font-medium capitalize disabled:opacity-50 ${sourceKind === k ? 'bg-primary text-primary-foreground' : 'bg-muted hover:bg-muted/70'}`}>{k}</button>
+          ))}
+        </div>
+        <select value={protocol.id} onChange={e => updateSettings({ recordingProtocol: e.target.value })} disabled={isRecording || isArmed} className="w-full bg-background border rounded p-1 text-xs disabled:opacity-50">
+          {RECORDING_PROTOCOLS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+        </select>
+        {sourceKind === 'synthetic' && (
+          <div className="grid grid-cols-4 gap-2 text-xs items-end">
+            <label>HR (bpm)<input type="number" value={syntheticOptions.heartRate} onChange={e => setSyntheticOptions({ ...syntheticOptions, heartRate: +e.target.value || 72 })} className="w-full bg-background border rounded p-1"/></label>
+            <label>HRV (ms)<input type="number" value={syntheticOptions.hrv} onChange={e => setSyntheticOptions({ ...syntheticOptions, hrv: +e.target.value })} className="w-full bg-background border rounded p-1"/></label>
+            <label>Noise<input type="number" step="0.05" value={syntheticOptions.noise} onChange={e => setSyntheticOptions({ ...syntheticOptions, noise: +e.target.value })} className="w-full bg-background border rounded p-1"/></label>
+            <label className="flex items-center gap-1 pb-1"><input type="checkbox" checked={syntheticOptions.motionArtifacts} onChange={e => setSyntheticOptions({ ...syntheticOptions, motionArtifacts: e.target.checked })}/> Motion</label>
+          </div>
+        )}
+        {sourceKind === 'replay' && (
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <input type="file" accept=".csv,.ppgs" onChange={e => handleReplayFile(e.target.files?.[0])} className="w-full text-xs"/>
+            <select onChange={e => handleReplaySession(e.target.value)} className="w-full bg-background border rounded p-1">
+              <option value="">Stored session...</option>
+              {storedSessions.map(r => <option key={r.id} value={r.id}>{r.id} - {r.patientName || 'Unknown'}</option>)}
+            </select>
+            {replay && <p className="col-span-2 text-muted-foreground">{replay.label} • {replay.samples.length} samples</p>}
+          </div>
+        )}
+      </div>
+
       {/* Video Preview */}
       <div className="relative h-48 bg-black rounded-lg overflow-hidden shadow-md">
         <video ref={videoRef} muted playsInline className="w-full h-full object-cover" />
@@ -352,23 +576,53 @@ export default function RecordingTab() {
             </button>
             <div className="px-3 py-1 bg-black/40 backdrop-blur rounded-full text-white text-xs flex items-center">{statusMsg}</div>
         </div>
+        {contact && sourceKind === 'camera' && (
+            <div className="absolute bottom-2 left-2 px-3 py-1 bg-black/40 backdrop-blur rounded-full text-white text-xs flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full ${CONTACT_UI[contact].dot} ${contact === 'finger-detected' && !contactStable ? 'animate-pulse' : ''}`} />
+                {CONTACT_UI[contact].text}
+            </div>
+        )}
+        {isArmed && (
+            <button onClick={() => { setIsArmed(false); setStatusMsg("Ready"); }} className="absolute bottom-2 right-2 px-3 py-1 bg-black/40 backdrop-blur rounded-full text-white text-xs">Cancel</button>
+        )}
       </div>
 
       {/* Timer & Visualizer */}
       <div className="bg-card border rounded-lg p-3">
           <div className="text-center font-mono text-3xl font-bold mb-2 flex justify-center items-center gap-2">
             <Timer className="w-6 h-6 text-muted-foreground"/> 
-            <span className={recordingTime < 10 && isRecording ? "text-red-500" : "text-primary"}>{recordingTime.toFixed(1)}s</span>
+            <span className={recordingTime < MIN_RECORDING_SEC && isRecording ? "text-red-500" : "text-primary"}>{recordingTime.toFixed(1)}s</span>
           </div>
-          {recordingTime < 10 && isRecording && <p className="text-center text-xs text-red-500 animate-pulse">Keep recording... (min 10s)</p>}
+          {recordingTime < MIN_RECORDING_SEC && isRecording && <p className="text-center text-xs text-red-500 animate-pulse">Keep recording... (min {MIN_RECORDING_SEC}s)</p>}
+          {isRecording && protocol.kind !== 'manual' && (
+            <div className="mt-1 space-y-1">
+              <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+                <div className="h-full bg-primary transition-all" style={{ width: `${Math.round((progress?.fraction ?? 0) * 100)}%` }} />
+              </div>
+              <p className="text-center text-[10px] text-muted-foreground">
+                {protocol.label} • {protocol.kind === 'good-beats' ? `${progress?.goodBeats ?? 0}/${protocol.target} beats` : protocol.kind === 'clean-duration' ? `${Math.floor(progress?.cleanSec ?? 0)}/${protocol.target} s clean` : `${Math.floor(progress?.elapsedSec ?? 0)}/${protocol.target} s`}
+              </p>
+            </div>
+          )}
+          {isRecording && (
+            <div className="flex justify-center items-center gap-4 text-xs mt-1">
+              <span className="flex items-center gap-1 font-mono">
+                <Heart className={`w-3 h-3 text-red-500 ${liveVitals?.heartRate ? 'animate-pulse' : ''}`}/>
+                {liveVitals?.heartRate ? `${Math.round(liveVitals.heartRate)} bpm` : '-- bpm'}
+              </span>
+              <span className="text-muted-foreground">
+                Quality: {liveVitals?.quality ? <span className={liveVitals.quality.label === 'Good' ? 'text-green-500 font-bold' : liveVitals.quality.label === 'Acceptable' ? 'text-yellow-500 font-bold' : 'text-red-500 font-bold'}>{liveVitals.quality.label}</span> : '...'}
+              </span>
+            </div>
+          )}
           <div className="h-32 bg-slate-950 rounded border border-slate-800 p-1 mt-2">
-            <SignalVisualizer rawSignal={visRaw} filteredSignal={[]} color="#10b981" />
+            <SignalVisualizer rawSignal={visRaw} filteredSignal={visFiltered} color="#10b981" />
           </div>
       </div>
 
       <div className="flex gap-4 justify-center pt-2">
         {!isRecording ? (
-             <button onClick={handleStartClick} className="h-16 w-16 flex items-center justify-center rounded-full shadow-lg bg-green-500 hover:bg-green-600 text-white transition-all hover:scale-105"><Play className="w-8 h-8 ml-1" /></button>
+             <button onClick={handleStartClick} disabled={isArmed} className="h-16 w-16 flex items-center justify-center rounded-full shadow-lg bg-green-500 hover:bg-green-600 text-white transition-all hover:scale-105 disabled:opacity-50"><Play className="w-8 h-8 ml-1" /></button>
         ) : (
             <button onClick={stopAndAnalyze} className="h-16 w-16 flex items-center justify-center rounded-full shadow-lg bg-red-500 hover:bg-red-600 text-white animate-pulse"><Pause className="w-8 h-8" /></button>
         )}
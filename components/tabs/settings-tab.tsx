@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useContext } from 'react';
 import { 
   Settings, 
   Trash2, 
@@ -13,16 +13,31 @@ import {
   CheckCircle2,
   Linkedin,
   Mail,
-  User
+  User,
+  SlidersHorizontal
 } from 'lucide-react';
 import { useTheme } from 'next-themes';
-import { SignalStorage } from '@/lib/signal-processing';
+import { FilterConfig, FilterType } from '@/lib/signal-processing';
+import { SignalStorage } from '@/lib/signal-storage';
+import { PatientRegistry } from '@/lib/patient-registry';
+import { CalibrationStore } from '@/lib/calibration';
+import { AppSettingsContext } from '@/lib/app-context';
+import { resolveFilterConfig } from '@/lib/filter-design';
+
+const SAMPLING_RATES = [24, 30, 60];
+
+// Editable text for the numeric filter fields, applied on blur
+const filterInputsOf = (c: FilterConfig) => ({ lowCutoff: String(c.lowCutoff), highCutoff: String(c.highCutoff), order: String(c.order) });
 
 export default function SettingsTab() {
   const { theme, setTheme } = useTheme();
+  const { settings, updateSettings } = useContext(AppSettingsContext);
   const [mounted, setMounted] = useState(false);
   const [clearStatus, setClearStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
   const [storageUsage, setStorageUsage] = useState<string>('Checking...');
+  const [filterInputs, setFilterInputs] = useState(() => filterInputsOf(settings.filterConfig));
+
+  useEffect(() => { setFilterInputs(filterInputsOf(settings.filterConfig)); }, [settings.filterConfig]);
 
   // Prevent hydration mismatch
   useEffect(() => {
@@ -33,8 +48,11 @@ export default function SettingsTab() {
   const checkStorage = async () => {
     try {
       const storage = new SignalStorage();
-      const sessions = await storage.getSessions();
-      setStorageUsage(`${sessions.length} recordings stored`);
+      const [sessions, estimate] = await Promise.all([storage.getSessionSummaries(), storage.getStorageEstimate()]);
+      const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+      setStorageUsage(estimate.quota > 0
+        ? `${sessions.length} recordings • ${mb(estimate.usage)} MB of ${mb(estimate.quota)} MB used`
+        : `${sessions.length} recordings stored`);
     } catch (e) {
       setStorageUsage('Unknown');
     }
@@ -52,6 +70,8 @@ export default function SettingsTab() {
       // 2. Perform Deletion
       const storage = new SignalStorage();
       await storage.clearAll();
+      await new PatientRegistry().clearAll();
+      await new CalibrationStore().clearAll();
       
       // 3. Update UI
       setClearStatus('success');
@@ -68,6 +88,20 @@ export default function SettingsTab() {
     }
   };
 
+  // Only designable filters are saved; anything else is rejected and the fields reset
+  const updateFilter = (patch: Partial<FilterConfig>) => {
+    try {
+      updateSettings({ filterConfig: resolveFilterConfig({ ...settings.filterConfig, ...patch }) });
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+      setFilterInputs(filterInputsOf(settings.filterConfig));
+    }
+  };
+
+  const applyFilterInputs = () => {
+    updateFilter({ lowCutoff: parseFloat(filterInputs.lowCutoff), highCutoff: parseFloat(filterInputs.highCutoff), order: parseFloat(filterInputs.order) });
+  };
+
   if (!mounted) return null;
 
   return (
@@ -109,6 +143,84 @@ export default function SettingsTab() {
           </div>
         </section>
 
+        {/* Signal Processing Section */}
+        <section className="space-y-3">
+          <h2 className="text-sm font-semibold text-foreground uppercase tracking-wider">Signal Processing</h2>
+          <div className="bg-card border border-border rounded-lg p-4 space-y-4">
+            <div className="flex items-center gap-3">
+              <div className="bg-emerald-100 dark:bg-emerald-900 p-2 rounded-full">
+                <SlidersHorizontal className="w-5 h-5 text-emerald-600 dark:text-emerald-300" />
+              </div>
+              <div className="flex-1">
+                <div className="font-medium text-sm">Bandpass Filter</div>
+                <div className="text-xs text-muted-foreground">
+                  {settings.filterConfig.lowCutoff}-{settings.filterConfig.highCutoff} Hz, order {settings.filterConfig.order} @ {settings.filterConfig.samplingRate} Hz
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-muted/40 rounded-lg p-1 flex">
+              {(['butterworth', 'chebyshev1'] as FilterType[]).map(t => (
+                <button
+                  key={t}
+                  onClick={() => updateFilter({ type: t })}
+                  className={`flex-1 p-2 rounded-md text-xs transition-all ${(settings.filterConfig.type ?? 'butterworth') === t ? 'bg-primary text-primary-foreground shadow-sm' : 'text-muted-foreground hover:bg-muted'}`}
+                >
+                  {t === 'butterworth' ? 'Butterworth' : 'Chebyshev I'}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Low (Hz)</label>
+                <input type="number" step="0.1" value={filterInputs.lowCutoff} onChange={e => setFilterInputs({ ...filterInputs, lowCutoff: e.target.value })} onBlur={applyFilterInputs} className="w-full border p-2 rounded bg-background text-center text-sm"/>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">High (Hz)</label>
+                <input type="number" step="0.1" value={filterInputs.highCutoff} onChange={e => setFilterInputs({ ...filterInputs, highCutoff: e.target.value })} onBlur={applyFilterInputs} className="w-full border p-2 rounded bg-background text-center text-sm"/>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Order</label>
+                <input type="number" min={1} max={8} value={filterInputs.order} onChange={e => setFilterInputs({ ...filterInputs, order: e.target.value })} onBlur={applyFilterInputs} className="w-full border p-2 rounded bg-background text-center text-sm"/>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-xs text-muted-foreground">Camera Sampling Rate</label>
+              <div className="bg-muted/40 rounded-lg p-1 flex">
+                {SAMPLING_RATES.map(rate => (
+                  <button
+                    key={rate}
+                    onClick={() => updateFilter({ samplingRate: rate })}
+                    className={`flex-1 p-2 rounded-md text-xs transition-all ${settings.filterConfig.samplingRate === rate ? 'bg-primary text-primary-foreground shadow-sm' : 'text-muted-foreground hover:bg-muted'}`}
+                  >
+                    {rate} fps
+                  </button>
+                ))}
+              </div>
+            </div>
+            <p className="text-[10px] text-muted-foreground text-center">
+              Stored recordings are always filtered at their own sampling rate.
+            </p>
+
+            <div className="h-px bg-border" />
+
+            <button
+              onClick={() => updateSettings({ autoStartOnContact: !settings.autoStartOnContact })}
+              className="w-full flex items-center justify-between text-sm"
+            >
+              <span>
+                <span className="font-medium block text-left">Auto-start on finger contact</span>
+                <span className="text-xs text-muted-foreground">Recording begins once placement is stable for 2s</span>
+              </span>
+              <span className={`w-10 h-6 rounded-full p-1 transition-colors ${settings.autoStartOnContact ? 'bg-primary' : 'bg-muted'}`}>
+                <span className={`block w-4 h-4 rounded-full bg-background transition-transform ${settings.autoStartOnContact ? 'translate-x-4' : ''}`} />
+              </span>
+            </button>
+          </div>
+        </section>
+
         {/* Data Management Section */}
         <section className="space-y-3">
           <h2 className="text-sm font-semibold text-foreground uppercase tracking-wider">Data Management</h2>
@@ -119,7 +231,7 @@ export default function SettingsTab() {
                 <Database className="w-5 h-5 text-blue-600 dark:text-blue-300" />
               </div>
               <div className="flex-1">
-                <div className="font-medium text-sm">Local Storage</div>
+                <div className="font-medium text-sm">On-Device Storage</div>
                 <div className="text-xs text-muted-foreground">{storageUsage}</div>
               </div>
             </div>
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { applyCalibration, buildProfile, CalibrationPoint, CALIBRATION_MAX_AGE_DAYS } from '../calibration';
+
+const NOW = Date.UTC(2024, 5, 1);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const point = (modelId: string, predicted: number, reference: number, ageDays: number = 1): CalibrationPoint => ({
+    patientId: 'P0001',
+    modelId,
+    timestamp: NOW - ageDays * DAY_MS,
+    predicted: { sbp: predicted, dbp: predicted - 40, glucose: predicted - 20 },
+    reference: { sbp: reference, dbp: reference - 40, glucose: reference - 20 }
+});
+
+describe('buildProfile', () => {
+    const points = [point('model-a', 120, 130), point('model-a', 140, 150, 2), point('model-b', 120, 100)];
+
+    it('fits only the points of the requested model', () => {
+        const a = buildProfile('P0001', 'model-a', points, NOW);
+        expect(a.points).toHaveLength(2);
+        expect(a.fits.sbp.offset).toBeCloseTo(10, 9);
+        expect(applyCalibration({ sbp: 125, dbp: 85, glucose: 105 }, a).sbp).toBeCloseTo(135, 9);
+
+        const b = buildProfile('P0001', 'model-b', points, NOW);
+        expect(b.points).toHaveLength(1);
+        expect(b.fits.sbp.offset).toBeCloseTo(-20, 9);
+    });
+
+    it('leaves a model without points uncalibrated', () => {
+        const c = buildProfile('P0001', 'model-c', points, NOW);
+        expect(c.points).toEqual([]);
+        expect(c.expired).toBe(false);
+        expect(applyCalibration({ sbp: 125, dbp: 85, glucose: 105 }, c)).toEqual({ sbp: 125, dbp: 85, glucose: 105 });
+    });
+
+    it('expires a model whose points are all stale', () => {
+        const stale = buildProfile('P0001', 'model-a', [point('model-a', 120, 130, CALIBRATION_MAX_AGE_DAYS + 1)], NOW);
+        expect(stale.expired).toBe(true);
+        expect(stale.fits.sbp.n).toBe(0);
+    });
+});
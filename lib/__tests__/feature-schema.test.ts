@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILTER_CONFIG, FEATURE_NAMES, extractFeatures, preprocessPPG } from '../signal-processing';
+import { FEATURE_SCHEMA, INPUT_NAMES, serializeFeatures, toFeatureVector, validateFeatures } from '../feature-schema';
+import { generateSyntheticPpg } from '../synthetic-ppg';
+
+const demographics = { age: 40, height: 175, weight: 80 };
+
+describe('FEATURE_SCHEMA', () => {
+    it('covers every feature and demographic', () => {
+        expect(Object.keys(FEATURE_SCHEMA)).toEqual(INPUT_NAMES);
+        Object.values(FEATURE_SCHEMA).forEach(s => expect(s.range[0]).toBeLessThan(s.range[1]));
+    });
+});
+
+describe('toFeatureVector', () => {
+    it('names features in extractFeatures order', () => {
+        const v = toFeatureVector(FEATURE_NAMES.map((_, i) => i), demographics);
+        expect(v.RI).toBe(0);
+        expect(v.HR).toBe(6);
+        expect(v.LF).toBe(17);
+        expect(v.weight).toBe(80);
+    });
+
+    it('rejects a vector of the wrong length', () => {
+        expect(() => toFeatureVector([1, 2, 3], demographics)).toThrow(/Expected 18 features, got 3/);
+    });
+});
+
+describe('validateFeatures', () => {
+    it('passes features of typical synthetic recordings', () => {
+        for (const heartRate of [55, 75, 110]) {
+            const { signal } = generateSyntheticPpg({ seed: heartRate, heartRate });
+            const features = extractFeatures(preprocessPPG(signal, DEFAULT_FILTER_CONFIG));
+            expect(validateFeatures(toFeatureVector(features, demographics))).toEqual([]);
+        }
+    });
+
+    it('flags non-finite values as errors and out-of-range values as warnings', () => {
+        const v = toFeatureVector(FEATURE_NAMES.map(n => (FEATURE_SCHEMA[n].range[0] + FEATURE_SCHEMA[n].range[1]) / 2), demographics);
+        v.HR = NaN;
+        v.age = 150;
+        const issues = validateFeatures(v);
+        expect(issues.map(i => [i.name, i.severity])).toEqual([['HR', 'error'], ['age', 'warning']]);
+    });
+
+    it('only checks the requested inputs', () => {
+        expect(validateFeatures({ HR: 70 }, ['HR'])).toEqual([]);
+        expect(validateFeatures({ HR: 70 }, ['HR', 'HRV'])[0]).toMatchObject({ name: 'HRV', severity: 'error' });
+    });
+});
+
+describe('serializeFeatures', () => {
+    const vector = toFeatureVector(FEATURE_NAMES.map((_, i) => i + 1), demographics);
+
+    it('follows the requested order with optional z-scoring', () => {
+        expect(Array.from(serializeFeatures(vector, ['age', 'HR', 'RI']))).toEqual([40, 7, 1]);
+        expect(Array.from(serializeFeatures(vector, ['HR', 'age'], { mean: [5, 30], std: [2, 10] }))).toEqual([1, 1]);
+    });
+
+    it('rejects unknown names', () => {
+        expect(() => serializeFeatures(vector, ['HR', 'bmi'])).toThrow(/Unknown model input "bmi"/);
+    });
+});
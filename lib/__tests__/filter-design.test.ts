@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { designBandpass, designBandpassSos, resolveFilterConfig } from '../filter-design';
+import { DEFAULT_FILTER_CONFIG, FilterConfig, filtfilt, lfilterZi, sosfilt, sosfiltfilt } from '../signal-processing';
+import { migrateSettings } from '../app-context';
+
+/** |H(e^jw)| of b/a at f Hz. */
+function magnitude(b: number[], a: number[], f: number, fs: number): number {
+    const w = 2 * Math.PI * f / fs;
+    const evalPoly = (c: number[]) => {
+        let re = 0, im = 0;
+        c.forEach((v, k) => { re += v * Math.cos(w * k); im -= v * Math.sin(w * k); });
+        return Math.hypot(re, im);
+    };
+    return evalPoly(b) / evalPoly(a);
+}
+
+/** Analog bandpass variable at the pre-warped frequency (exact under the bilinear transform). */
+function bandpassX(f: number, config: FilterConfig): number {
+    const fs2 = 2 * config.samplingRate;
+    const warp = (hz: number) => fs2 * Math.tan(Math.PI * hz / config.samplingRate);
+    const wl = warp(config.lowCutoff), wh = warp(config.highCutoff), w = warp(f);
+    return (w * w - wl * wh) / (w * (wh - wl));
+}
+
+const chebyshevT = (n: number, x: number) =>
+    Math.abs(x) <= 1 ? Math.cos(n * Math.acos(x)) : Math.cosh(n * Math.acosh(Math.abs(x))) * (x < 0 && n % 2 ? -1 : 1);
+
+const FREQS = [0.05, 0.2, 0.5, 0.8, 1, 1.5, 2, 3, 5, 7, 10, 14];
+
+describe('designBandpass', () => {
+    it('matches the analytic Butterworth response', () => {
+        for (const order of [1, 2, 4, 6]) {
+            const config = { ...DEFAULT_FILTER_CONFIG, order };
+            const { b, a } = designBandpass(config);
+            expect(b).toHaveLength(2 * order + 1);
+            for (const f of FREQS) {
+                const expected = 1 / Math.sqrt(1 + Math.pow(bandpassX(f, config), 2 * order));
+                expect(magnitude(b, a, f, config.samplingRate)).toBeCloseTo(expected, 6);
+            }
+        }
+    });
+
+    it('is -3 dB at both cutoffs', () => {
+        const { b, a } = designBandpass(DEFAULT_FILTER_CONFIG);
+        expect(magnitude(b, a, 0.5, 30)).toBeCloseTo(Math.SQRT1_2, 6);
+        expect(magnitude(b, a, 5, 30)).toBeCloseTo(Math.SQRT1_2, 6);
+    });
+
+    it('matches the analytic Chebyshev I response', () => {
+        const config: FilterConfig = { ...DEFAULT_FILTER_CONFIG, type: 'chebyshev1', rippleDb: 1, order: 3 };
+        const { b, a } = designBandpass(config);
+        const eps2 = Math.pow(10, 0.1) - 1;
+        for (const f of FREQS) {
+            const expected = 1 / Math.sqrt(1 + eps2 * Math.pow(chebyshevT(3, bandpassX(f, config)), 2));
+            expect(magnitude(b, a, f, 30)).toBeCloseTo(expected, 6);
+        }
+    });
+
+    it('works at other sampling rates', () => {
+        const config = { ...DEFAULT_FILTER_CONFIG, samplingRate: 60 };
+        const { b, a } = designBandpass(config);
+        expect(magnitude(b, a, 0.5, 60)).toBeCloseTo(Math.SQRT1_2, 6);
+        expect(magnitude(b, a, 5, 60)).toBeCloseTo(Math.SQRT1_2, 6);
+    });
+
+    it('rejects cutoffs above Nyquist and an empty passband', () => {
+        expect(() => resolveFilterConfig({ ...DEFAULT_FILTER_CONFIG, highCutoff: 50 })).toThrow(/must be below 14.25 Hz/);
+        expect(() => resolveFilterConfig({ ...DEFAULT_FILTER_CONFIG, lowCutoff: 0 })).toThrow(/Invalid passband/);
+        expect(() => designBandpass({ ...DEFAULT_FILTER_CONFIG, lowCutoff: 6, highCutoff: 5 })).toThrow(/Invalid passband/);
+    });
+
+    it('migrates saved filters that no longer design to the training band', () => {
+        expect(migrateSettings({ filterConfig: { ...DEFAULT_FILTER_CONFIG, highCutoff: 50 } }).filterConfig).toEqual(DEFAULT_FILTER_CONFIG);
+        expect(migrateSettings({ filterConfig: { ...DEFAULT_FILTER_CONFIG, lowCutoff: 0 } }).filterConfig).toEqual(DEFAULT_FILTER_CONFIG);
+        const custom = { ...DEFAULT_FILTER_CONFIG, lowCutoff: 0.7, highCutoff: 4 };
+        expect(migrateSettings({ filterConfig: custom }).filterConfig).toEqual(custom);
+    });
+});
+
+describe('designBandpassSos', () => {
+    it('cascades to the same response as b/a', () => {
+        for (const config of [DEFAULT_FILTER_CONFIG, { ...DEFAULT_FILTER_CONFIG, type: 'chebyshev1' as const, order: 3 }]) {
+            const { b, a } = designBandpass(config);
+            const sos = designBandpassSos(config);
+            expect(sos).toHaveLength(config.order);
+            for (const f of FREQS) {
+                const cascade = sos.reduce((g, s) => g * magnitude(s.slice(0, 3), s.slice(3), f, 30), 1);
+                expect(cascade).toBeCloseTo(magnitude(b, a, f, 30), 8);
+            }
+        }
+    });
+
+    it('stays stable at a high order and low cutoff', () => {
+        const config = { ...DEFAULT_FILTER_CONFIG, lowCutoff: 0.05, order: 8 };
+        const impulse = new Array(3000).fill(0);
+        impulse[0] = 1;
+        const y = sosfilt(designBandpassSos(config), impulse);
+        expect(y.every(Number.isFinite)).toBe(true);
+        expect(Math.max(...y.slice(2500).map(Math.abs))).toBeLessThan(1e-3);
+    });
+});
+
+describe('lfilterZi', () => {
+    it('is the steady state for a unit step', () => {
+        const b = [0.2, 0.1], a = [1, -0.7];
+        const y = sosfilt([[...b, 0, ...a, 0]], new Array(20).fill(1), [[...lfilterZi(b, a), 0]]);
+        y.forEach(v => expect(v).toBeCloseTo(1, 12));
+    });
+});
+
+describe('filtfilt', () => {
+    const fs = 30;
+    const { b, a } = designBandpass(DEFAULT_FILTER_CONFIG);
+    const sine = (f: number, n: number) => Array.from({ length: n }, (_, i) => Math.sin(2 * Math.PI * f * i / fs));
+
+    it('is zero-phase with squared magnitude in the passband', () => {
+        const x = sine(1.5, 20 * fs);
+        const y = filtfilt(b, a, x);
+        const gain = Math.pow(magnitude(b, a, 1.5, fs), 2);
+        // Compare away from the edges (transients)
+        for (let i = 5 * fs; i < 15 * fs; i++) expect(y[i]).toBeCloseTo(gain * x[i], 2);
+    });
+
+    it('rejects out-of-band components', () => {
+        const y = filtfilt(b, a, sine(12, 20 * fs));
+        const rms = Math.sqrt(y.slice(5 * fs, 15 * fs).reduce((s, v) => s + v * v, 0) / (10 * fs));
+        expect(rms).toBeLessThan(0.01);
+    });
+
+    it('keeps the input length and passes a constant through a lowpass unchanged', () => {
+        const y = filtfilt([0.2], [1, -0.8], new Array(50).fill(5));
+        expect(y).toHaveLength(50);
+        y.forEach(v => expect(v).toBeCloseTo(5, 10));
+    });
+
+    it('has no edge transient on an offset bandpassed signal', () => {
+        // Odd padding + steady-state initial conditions: the DC step never rings
+        const x = sine(1.5, 10 * fs).map(v => v + 100);
+        const y = sosfiltfilt(designBandpassSos(DEFAULT_FILTER_CONFIG), x);
+        const gain = Math.pow(magnitude(b, a, 1.5, fs), 2);
+        expect(y).toHaveLength(x.length);
+        for (let i = 0; i < fs; i++) expect(Math.abs(y[i] - gain * (x[i] - 100))).toBeLessThan(0.1);
+    });
+
+    it('matches the b/a form with second-order sections', () => {
+        const x = sine(1.2, 30 * fs).map((v, i) => v + 0.3 * Math.sin(i / 40) + 50);
+        const ba = filtfilt(b, a, x);
+        const sos = sosfiltfilt(designBandpassSos(DEFAULT_FILTER_CONFIG), x);
+        ba.forEach((v, i) => expect(v).toBeCloseTo(sos[i], 6));
+    });
+});
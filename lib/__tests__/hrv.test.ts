@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILTER_CONFIG, preprocessPPG } from '../signal-processing';
+import { createRandom, gaussianRandom, generateSyntheticPpg } from '../synthetic-ppg';
+import { analyzeHrv, correctEctopic, dfaAlpha, frequencyDomain, hrvFromBeatTimes, poincare, refinePeak, sampleEntropy, timeDomain } from '../hrv';
+
+const FS = 30;
+
+/** Beat times (s) for a list of intervals (ms). */
+const timesOf = (rr: number[]) => rr.reduce((t, v) => [...t, t[t.length - 1] + v / 1000], [0]);
+
+/** NN series with a sinusoidal modulation at `freq` Hz, sampled at each beat. */
+function modulated(freq: number, durationSec: number, depth: number = 50): number[] {
+    const nn: number[] = [];
+    let t = 0;
+    while (t < durationSec) {
+        const v = 800 + depth * Math.sin(2 * Math.PI * freq * t);
+        nn.push(v);
+        t += v / 1000;
+    }
+    return nn;
+}
+
+describe('refinePeak', () => {
+    it('finds the vertex between samples', () => {
+        const x = [0, 1, 2, 3, 4].map(i => -((i - 2.3) ** 2));
+        expect(refinePeak(x, 2)).toBeCloseTo(2.3, 9);
+        expect(refinePeak(x, 0)).toBe(0);
+    });
+});
+
+describe('correctEctopic', () => {
+    it('replaces a premature beat and its compensatory pause', () => {
+        const rr = [800, 810, 790, 800, 480, 1120, 800, 805, 795, 800];
+        const { nn, ectopic } = correctEctopic(rr);
+        expect(ectopic.map((e, i) => e ? i : -1).filter(i => i >= 0)).toEqual([4, 5]);
+        expect(nn[4]).toBeCloseTo(800, 6);
+        expect(nn[5]).toBeCloseTo(800, 6);
+        expect(nn.slice(0, 4)).toEqual(rr.slice(0, 4));
+    });
+});
+
+describe('HRV measures', () => {
+    it('computes time-domain values', () => {
+        const t = timeDomain([800, 850, 800, 900]);
+        expect(t.meanNN).toBe(837.5);
+        expect(t.rmssd).toBeCloseTo(Math.sqrt(5000), 9);
+        expect(t.pnn50).toBeCloseTo(100 / 3, 9);
+        expect(t.meanHR).toBeCloseTo(60000 / 837.5, 9);
+    });
+
+    it('puts respiratory modulation in HF and slow modulation in LF', () => {
+        const hfSeries = modulated(0.25, 180);
+        const hf = frequencyDomain(hfSeries, timesOf(hfSeries).slice(1));
+        expect(hf.hfNu).toBeGreaterThan(90);
+
+        const lfSeries = modulated(0.1, 180);
+        const lf = frequencyDomain(lfSeries, timesOf(lfSeries).slice(1));
+        expect(lf.lfNu).toBeGreaterThan(90);
+        // Sine of amplitude 50 ms carries 1250 ms² of variance
+        expect(lf.lf).toBeGreaterThan(800);
+        expect(lf.lf).toBeLessThan(1400);
+    });
+
+    it('separates uncorrelated, integrated and regular series', () => {
+        const random = createRandom(7);
+        const noise = Array.from({ length: 2000 }, () => 800 + 40 * gaussianRandom(random));
+        const p = poincare(noise);
+        expect(p.ratio).toBeGreaterThan(0.9);
+        expect(p.ratio).toBeLessThan(1.1);
+        // White noise scales near 0.5 (slightly above at these short box sizes), a random walk near 1.5
+        expect(dfaAlpha(noise)).toBeGreaterThan(0.4);
+        expect(dfaAlpha(noise)).toBeLessThan(0.7);
+        let sum = 0;
+        const walk = noise.map(v => (sum += v - 800));
+        expect(dfaAlpha(walk)).toBeGreaterThan(1.3);
+
+        const regular = Array.from({ length: 200 }, (_, i) => 800 + 40 * Math.sin(i));
+        expect(sampleEntropy(regular)!).toBeLessThan(sampleEntropy(noise.slice(0, 200))!);
+    });
+
+    it('skips frequency and nonlinear measures on short recordings', () => {
+        const report = hrvFromBeatTimes(timesOf(new Array(20).fill(800)));
+        expect(report.frequency).toBeNull();
+        expect(report.poincare).toBeNull();
+        expect(report.sampleEntropy).toBeNull();
+        expect(report.warnings).toHaveLength(2);
+        expect(() => hrvFromBeatTimes([0, 1, 2])).toThrow(/Not enough beats/);
+    });
+
+    it('flags a report with too many corrected intervals', () => {
+        const clean = hrvFromBeatTimes(timesOf(modulated(0.25, 90)));
+        expect(clean.reliable).toBe(true);
+
+        // Two of every five intervals are a premature beat and its pause
+        const rr = Array.from({ length: 100 }, (_, i) => [800, 810, 790, 480, 1120][i % 5]);
+        const report = hrvFromBeatTimes(timesOf(rr));
+        expect(report.ectopicFraction).toBeCloseTo(0.4, 1);
+        expect(report.reliable).toBe(false);
+        expect(report.warnings.some(w => /unreliable/.test(w))).toBe(true);
+    });
+});
+
+describe('analyzeHrv', () => {
+    it('recovers HR and SDNN from a synthetic recording', () => {
+        const { signal, labels } = generateSyntheticPpg({ seed: 21, durationSec: 180, heartRate: 70, sdnn: 40 });
+        const report = analyzeHrv(preprocessPPG(signal, DEFAULT_FILTER_CONFIG), FS);
+        expect(report.time.meanHR).toBeCloseTo(labels.heartRate, 0);
+        expect(report.time.sdnn).toBeGreaterThan(0.7 * labels.sdnn);
+        expect(report.time.sdnn).toBeLessThan(1.3 * labels.sdnn);
+        expect(report.frequency).not.toBeNull();
+        expect(report.dfaAlpha1).not.toBeNull();
+        expect(report.warnings).toEqual([]);
+    });
+
+    it('corrects ectopic beats', () => {
+        const { signal } = generateSyntheticPpg({ seed: 4, durationSec: 120, heartRate: 70, sdnn: 30, ectopicRate: 0.05 });
+        const report = analyzeHrv(preprocessPPG(signal, DEFAULT_FILTER_CONFIG), FS);
+        expect(report.ectopic.some(Boolean)).toBe(true);
+        expect(report.time.sdnn).toBeLessThan(timeDomain(report.rr).sdnn);
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { FEATURE_NAMES } from '../signal-processing';
+import { ModelManifest } from '../model-registry';
+import { InferenceService, modelKey } from '../inference-service';
+
+const PUBLIC_DIR = path.join(__dirname, '..', '..', 'public');
+const bundled: ModelManifest = JSON.parse(fs.readFileSync(path.join(PUBLIC_DIR, 'models', 'ppg-bp-glucose-v1.json'), 'utf8'));
+// No Worker in node: the service falls back to a main-thread session loaded from disk
+const manifest: ModelManifest = { ...bundled, modelUrl: path.join(PUBLIC_DIR, bundled.modelUrl!) };
+const features = FEATURE_NAMES.map((_, i) => i + 1);
+const demographics = { age: 40, height: 175, weight: 80 };
+
+describe('InferenceService', () => {
+    it('loads a model once and reports its status', async () => {
+        const service = new InferenceService();
+        const seen: string[] = [];
+        service.subscribe(() => seen.push(service.getStatus(manifest)!.state));
+
+        await Promise.all([service.load(manifest), service.load(manifest)]);
+        expect(seen).toEqual(['loading', 'ready']);
+        expect(service.getStatus(manifest)).toMatchObject({ id: manifest.id, state: 'ready', backend: 'main-thread' });
+
+        const out = await service.predict(manifest, features, demographics);
+        expect(Object.keys(out)).toEqual(['sbp', 'dbp', 'glucose']);
+        expect(seen).toHaveLength(2);
+    });
+
+    it('reports load errors and retries on the next request', async () => {
+        const service = new InferenceService();
+        const broken = { ...manifest, modelUrl: path.join(PUBLIC_DIR, 'missing.onnx') };
+        await expect(service.load(broken)).rejects.toThrow();
+        expect(service.getStatus(manifest)?.state).toBe('error');
+
+        await service.load(manifest);
+        expect(service.getStatus(manifest)?.state).toBe('ready');
+    });
+
+    it('keeps bundled and imported models with the same id apart', async () => {
+        const service = new InferenceService();
+        const imported: ModelManifest = { ...manifest, origin: 'imported' };
+        await service.load(manifest);
+        // No IndexedDB in node, so the imported copy cannot be read
+        await expect(service.load(imported)).rejects.toThrow();
+        expect(service.getStatus(manifest)?.state).toBe('ready');
+        expect(service.getStatus(imported)?.state).toBe('error');
+
+        await service.release(imported);
+        expect(service.getStatus(imported)).toBeUndefined();
+        expect(service.getStatus(manifest)?.state).toBe('ready');
+        expect(Object.keys(service.getStatuses())).toEqual([modelKey(manifest)]);
+    });
+
+    it('batches rows and matches single predictions', async () => {
+        const service = new InferenceService();
+        const items = Array.from({ length: 70 }, (_, i) => ({
+            id: `S${i}`,
+            features: features.map(v => v * (1 + i / 100)),
+            demographics
+        }));
+        items[3].features = features.map((v, j) => j === 6 ? NaN : v);
+
+        const progress: number[] = [];
+        const results = await service.predictBatch(manifest, items, done => progress.push(done));
+        expect(progress).toEqual([1, 65, 70]);
+        expect(results[3]).toMatchObject({ id: 'S3', error: 'Invalid model input.' });
+        expect(results[3].output).toBeUndefined();
+
+        const single = await service.predict(manifest, items[69].features, demographics);
+        expect(results[69].output!.sbp).toBeCloseTo(single.sbp, 4);
+        expect(results.filter(r => r.output)).toHaveLength(69);
+    });
+
+    it('rejects invalid inputs before inference', async () => {
+        const service = new InferenceService();
+        await expect(service.predict(manifest, features.map((v, i) => i === 6 ? NaN : v), demographics)).rejects.toThrow(/HR: NaN/);
+    });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import * as ort from 'onnxruntime-web';
+import { FEATURE_NAMES } from '../signal-processing';
+import { ModelManifest, buildModelInput, predict, readModelOutput, validateManifest, validateSession } from '../model-registry';
+
+const PUBLIC_DIR = path.join(__dirname, '..', '..', 'public');
+const manifest: ModelManifest = JSON.parse(fs.readFileSync(path.join(PUBLIC_DIR, 'models', 'ppg-bp-glucose-v1.json'), 'utf8'));
+const features = FEATURE_NAMES.map((_, i) => i + 1);
+const demographics = { age: 40, height: 175, weight: 80 };
+
+describe('validateManifest', () => {
+    it('accepts the bundled manifest', () => {
+        expect(validateManifest(manifest)).toBe(manifest);
+        expect(manifest.input.features).toHaveLength(21);
+    });
+
+    it('rejects unknown inputs, missing outputs and mismatched normalization', () => {
+        expect(() => validateManifest({ ...manifest, input: { ...manifest.input, features: ['RI', 'shoe_size'] } })).toThrow(/unknown input features \(shoe_size\)/);
+        expect(() => validateManifest({ ...manifest, output: { ...manifest.output, values: [{ name: 'sbp', unit: 'mmHg' }] } })).toThrow(/lacks outputs dbp, glucose/);
+        expect(() => validateManifest({ ...manifest, input: { ...manifest.input, normalization: { mean: [0], std: [1] } } })).toThrow(/one mean \/ std/);
+    });
+});
+
+describe('buildModelInput', () => {
+    it('orders features and demographics as the manifest lists them', () => {
+        const m = { ...manifest, input: { name: 'x', features: ['weight', 'HR', 'RI', 'age'] } };
+        expect(Array.from(buildModelInput(m, features, demographics))).toEqual([80, 7, 1, 40]);
+    });
+
+    it('z-scores with the manifest normalization', () => {
+        const m = { ...manifest, input: { name: 'x', features: ['HR', 'age'], normalization: { mean: [5, 30], std: [2, 10] } } };
+        expect(Array.from(buildModelInput(m, features, demographics))).toEqual([1, 1]);
+    });
+});
+
+describe('bundled model', () => {
+    it('matches its manifest and predicts named outputs', async () => {
+        const session = await ort.InferenceSession.create(fs.readFileSync(path.join(PUBLIC_DIR, manifest.modelUrl!)));
+        expect(() => validateSession(manifest, session)).not.toThrow();
+        expect(() => validateSession({ ...manifest, input: { ...manifest.input, features: manifest.input.features.slice(1) } }, session)).toThrow(/expects 21 inputs/);
+
+        const out = await predict({ manifest, session }, features, demographics);
+        expect(Object.keys(out)).toEqual(['sbp', 'dbp', 'glucose']);
+        expect(Object.values(out).every(Number.isFinite)).toBe(true);
+
+        const broken = features.map((v, i) => i === 6 ? NaN : v);
+        await expect(predict({ manifest, session }, broken, demographics)).rejects.toThrow(/Invalid model input \(HR: NaN\)/);
+    });
+
+    it('reads outputs by manifest position', () => {
+        expect(readModelOutput(manifest, [120, 80, 95])).toEqual({ sbp: 120, dbp: 80, glucose: 95 });
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { ProtocolTracker, getProtocol } from '../recording-protocol';
+import type { LiveVitals } from '../stream-processing';
+import type { SignalQualityReport } from '../signal-quality';
+
+const quality = (label: SignalQualityReport['label'], motionFraction = 0) => ({ label, motionFraction } as SignalQualityReport);
+const clean = (beats: number): LiveVitals => ({ heartRate: 60, beats, quality: quality('Good') });
+const noisy = (beats: number): LiveVitals => ({ heartRate: 60, beats, quality: quality('Good', 0.5) });
+
+describe('ProtocolTracker', () => {
+    it('counts only clean seconds towards a clean-duration target', () => {
+        const tracker = new ProtocolTracker(getProtocol('clean-60'));
+        for (let t = 0; t <= 30; t++) tracker.update(t * 1000, noisy(t));
+        expect(tracker.current.cleanSec).toBe(0);
+        for (let t = 31; t <= 90; t++) tracker.update(t * 1000, clean(t));
+        expect(tracker.current.cleanSec).toBe(60);
+        expect(tracker.current.done).toBe(true);
+        expect(tracker.result()).toMatchObject({ id: 'clean-60', completed: true, durationSec: 90 });
+    });
+
+    it('counts good beats and times out without them', () => {
+        const tracker = new ProtocolTracker(getProtocol('beats-40'));
+        let p = tracker.update(0, clean(0));
+        for (let t = 1; t <= 20; t++) p = tracker.update(t * 1000, clean(t));
+        expect(p.goodBeats).toBe(20);
+        expect(p.fraction).toBeCloseTo(0.5);
+        for (let t = 21; t <= 120 && !p.timedOut; t++) p = tracker.update(t * 1000, { heartRate: null, beats: t, quality: null });
+        expect(p.timedOut).toBe(true);
+        expect(tracker.result().completed).toBe(false);
+    });
+
+    it('waits for the minimum recording length and never completes manual recordings', () => {
+        const fixed = new ProtocolTracker({ id: 'fixed-5', kind: 'fixed-duration', label: 'Fixed 5 s', target: 5 });
+        expect(fixed.update(0, clean(0)).done).toBe(false);
+        expect(fixed.update(6000, clean(6)).done).toBe(false);
+        expect(fixed.update(10000, clean(10)).done).toBe(true);
+
+        const manual = new ProtocolTracker(getProtocol('manual'));
+        expect(manual.update(0, clean(0)).done).toBe(false);
+        expect(manual.update(600000, clean(600))).toMatchObject({ done: false, timedOut: false, fraction: 0 });
+    });
+
+    it('falls back to manual for an unknown protocol id', () => {
+        expect(getProtocol('nope').kind).toBe('manual');
+    });
+});
@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { decodeSignal, encodeSignal, packSignal, unpackSignal } from '../signal-codec';
+import type { SignalSample } from '../signal-processing';
+import { createRandom } from '../synthetic-ppg';
+
+const START = 1700000000000;
+
+/** Samples at the given timestamp offsets (ms) with a pulsatile value. */
+const samplesAt = (offsets: number[]): SignalSample[] =>
+    offsets.map((t, i) => ({ timestamp: START + t, value: 150 + 3 * Math.sin(i / 4) + 0.001 * i }));
+
+function regular(n: number, fs: number = 30): SignalSample[] {
+    return samplesAt(Array.from({ length: n }, (_, i) => i * 1000 / fs));
+}
+
+function expectTimestamps(decoded: SignalSample[], original: SignalSample[]) {
+    expect(decoded).toHaveLength(original.length);
+    // Stored as whole µs deltas; epoch-ms doubles resolve ~0.24 µs on top of the rounding
+    decoded.forEach((s, i) => expect(Math.abs(s.timestamp - original[i].timestamp)).toBeLessThanOrEqual(0.001));
+}
+
+describe('timestamps', () => {
+    it('round-trip irregular frame intervals', () => {
+        const random = createRandom(5);
+        let t = 0;
+        const offsets = Array.from({ length: 500 }, () => (t += 20 + 30 * random()));
+        const samples = samplesAt(offsets.map(o => o + 0.1234));
+        expectTimestamps(unpackSignal(packSignal(samples)), samples);
+    });
+
+    it('round-trip non-monotonic and very long gaps', () => {
+        // Backwards steps use zig-zag deltas; an hour is above 2^31 µs
+        const samples = samplesAt([0, 33.3, 20, 66.7, -5, 3600000, 3600033.3, 100]);
+        expectTimestamps(unpackSignal(packSignal(samples)), samples);
+    });
+});
+
+describe('values', () => {
+    it('round-trip float32 exactly', () => {
+        const samples = regular(300);
+        const decoded = unpackSignal(packSignal(samples, 'float32'));
+        decoded.forEach((s, i) => expect(s.value).toBe(Math.fround(samples[i].value)));
+    });
+
+    it('round-trip int16 within half a quantization step', () => {
+        const samples = regular(300);
+        const values = samples.map(s => s.value);
+        const halfStep = (Math.max(...values) - Math.min(...values)) / 65534 / 2;
+        const packed = packSignal(samples, 'int16');
+        expect(packed.length).toBeLessThan(packSignal(samples, 'float32').length);
+        unpackSignal(packed).forEach((s, i) => expect(Math.abs(s.value - values[i])).toBeLessThanOrEqual(halfStep * 1.001));
+    });
+
+    it('keeps a constant signal in int16', () => {
+        const samples = regular(10).map(s => ({ ...s, value: 42.5 }));
+        unpackSignal(packSignal(samples, 'int16')).forEach(s => expect(s.value).toBeCloseTo(42.5, 6));
+    });
+});
+
+describe('encodeSignal / decodeSignal', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('deflates the body and decodes it back', async () => {
+        const samples = regular(1800);
+        const encoded = await encodeSignal(samples, { compress: true });
+        expect(encoded[5] & 2).toBe(2);
+        expect(encoded.length).toBeLessThan(packSignal(samples).length);
+        expect(() => unpackSignal(encoded)).toThrow(/use decodeSignal/);
+
+        const decoded = await decodeSignal(encoded);
+        expectTimestamps(decoded, samples);
+        decoded.forEach((s, i) => expect(s.value).toBe(Math.fround(samples[i].value)));
+    });
+
+    it('falls back to an uncompressed body without CompressionStream', async () => {
+        const samples = regular(100);
+        const compressed = await encodeSignal(samples, { compress: true, values: 'int16' });
+
+        vi.stubGlobal('CompressionStream', undefined);
+        vi.stubGlobal('DecompressionStream', undefined);
+        const encoded = await encodeSignal(samples, { compress: true, values: 'int16' });
+        expect(encoded).toEqual(packSignal(samples, 'int16'));
+        expect(await decodeSignal(encoded)).toEqual(unpackSignal(encoded));
+        await expect(decodeSignal(compressed)).rejects.toThrow(/not supported/);
+    });
+
+    it('handles an empty signal', async () => {
+        expect(unpackSignal(packSignal([]))).toEqual([]);
+        expect(unpackSignal(packSignal([], 'int16'))).toEqual([]);
+        expect(await decodeSignal(await encodeSignal([], { compress: true }))).toEqual([]);
+    });
+
+    it('rejects other files', async () => {
+        await expect(decodeSignal(new TextEncoder().encode('Time(s),Raw Signal\n0,1\n'))).rejects.toThrow(/Not a PPG signal file/);
+    });
+});
@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import {
+    DEFAULT_FILTER_CONFIG, FEATURE_NAMES, filterConfigForRate, preprocessPPG, extractFeatures, fft, findPeaks, gaussianFilter1d,
+    performMathEstimation, welchPSD
+} from '../signal-processing';
+import { createRandom, generateSyntheticPpg } from '../synthetic-ppg';
+
+const FS = 30;
+
+const GOLDEN_PATH = path.join(__dirname, 'fixtures', 'golden-ppg.json');
+
+interface GoldenFixture {
+  description: string;
+  source: string | null;       // Python pipeline that produced `features`
+  samplingRate: number;
+  signal: number[];            // Raw (pre-filter) samples
+  features: number[] | null;   // Reference for extractFeatures(preprocessPPG(signal))
+  tolerance: number;           // Relative, per feature
+}
+
+describe('gaussianFilter1d', () => {
+    it('preserves constants and the signal sum', () => {
+        expect(gaussianFilter1d(new Array(50).fill(3), 2).every(v => Math.abs(v - 3) < 1e-12)).toBe(true);
+        // Edge samples are repeated (nearest mode); with zero ends no mass is lost
+        const x = Array.from({ length: 200 }, (_, i) => i < 20 || i >= 180 ? 0 : Math.sin(i / 7) + (i % 13 === 0 ? 5 : 0));
+        const sum = (a: number[]) => a.reduce((s, v) => s + v, 0);
+        expect(sum(gaussianFilter1d(x, 2))).toBeCloseTo(sum(x), 8);
+    });
+
+    it('repeats edge samples instead of padding with zeros', () => {
+        const step = Array.from({ length: 60 }, (_, i) => i < 30 ? 10 : -4);
+        const y = gaussianFilter1d(step, 2);
+        // Zero padding would pull the ends halfway to 0
+        expect(y[0]).toBeCloseTo(10, 12);
+        expect(y[59]).toBeCloseTo(-4, 12);
+    });
+
+    it('has a Gaussian impulse response', () => {
+        const impulse = new Array(41).fill(0);
+        impulse[20] = 1;
+        const y = gaussianFilter1d(impulse, 2);
+        const norm = y[20];
+        for (const k of [1, 2, 4]) expect(y[20 + k] / norm).toBeCloseTo(Math.exp(-k * k / 8), 10);
+        expect(y[20 + 9]).toBe(0);   // Truncated at 4 sigma
+    });
+});
+
+describe('findPeaks', () => {
+    it('finds every labelled systolic peak of a clean synthetic signal', () => {
+        const { clean, labels } = generateSyntheticPpg({ seed: 11, durationSec: 30, noise: 0, baselineWander: 0 });
+        const peaks = findPeaks(clean, 10);
+        const truth = labels.peaks.filter(p => p > 0 && p < clean.length - 1);
+        expect(peaks).toHaveLength(truth.length);
+        truth.forEach((p, i) => expect(Math.abs(peaks[i] - p)).toBeLessThanOrEqual(1));
+    });
+
+    it('enforces the minimum distance, keeping the larger peak', () => {
+        expect(findPeaks([0, 1, 0, 3, 0, 2, 0], 3)).toEqual([3]);
+        expect(findPeaks([0, 1, 0, 3, 0, 2, 0], 2)).toEqual([1, 3, 5]);
+    });
+});
+
+/** O(n²) reference transform. */
+function naiveDft(re: number[], im: number[]) {
+    const n = re.length;
+    const out = { re: new Array(n).fill(0), im: new Array(n).fill(0) };
+    for (let k = 0; k < n; k++) {
+        for (let t = 0; t < n; t++) {
+            const a = -2 * Math.PI * k * t / n;
+            out.re[k] += re[t] * Math.cos(a) - im[t] * Math.sin(a);
+            out.im[k] += re[t] * Math.sin(a) + im[t] * Math.cos(a);
+        }
+    }
+    return out;
+}
+
+describe('fft', () => {
+    // 64 takes the radix-2 path, the others Bluestein
+    it.each([64, 100, 37])('matches a direct DFT for n = %i', n => {
+        const random = createRandom(n);
+        const re = Array.from({ length: n }, () => random() - 0.5);
+        const im = Array.from({ length: n }, () => random() - 0.5);
+        const expected = naiveDft(re, im);
+
+        const out = fft(re, im);
+        out.re.forEach((v, k) => expect(v).toBeCloseTo(expected.re[k], 9));
+        out.im.forEach((v, k) => expect(v).toBeCloseTo(expected.im[k], 9));
+
+        const real = fft(re);
+        const expectedReal = naiveDft(re, new Array(n).fill(0));
+        real.re.forEach((v, k) => expect(v).toBeCloseTo(expectedReal.re[k], 9));
+        real.im.forEach((v, k) => expect(v).toBeCloseTo(expectedReal.im[k], 9));
+    });
+});
+
+describe('welchPSD', () => {
+    const integrate = ({ freqs, psd }: { freqs: number[]; psd: number[] }) => psd.reduce((s, p) => s + p, 0) * (freqs[1] - freqs[0]);
+
+    it('puts a sine at its frequency with power A²/2', () => {
+        const fs = 32, amplitude = 2;
+        const signal = Array.from({ length: 1024 }, (_, i) => amplitude * Math.sin(2 * Math.PI * 3 * i / fs));
+        const result = welchPSD(signal, fs);
+        expect(result.freqs).toHaveLength(129);
+        expect(result.freqs[result.psd.indexOf(Math.max(...result.psd))]).toBe(3);
+        expect(integrate(result)).toBeCloseTo(amplitude ** 2 / 2, 6);
+    });
+
+    it('integrates white noise to its variance (Parseval)', () => {
+        const random = createRandom(9);
+        const signal = Array.from({ length: 8192 }, () => random() - 0.5);
+        const mu = signal.reduce((s, v) => s + v, 0) / signal.length;
+        const variance = signal.reduce((s, v) => s + (v - mu) ** 2, 0) / signal.length;
+        expect(integrate(welchPSD(signal, 30)) / variance).toBeCloseTo(1, 1);
+    });
+});
+
+describe('preprocessPPG', () => {
+    it('removes the DC level and keeps the full length', () => {
+        const { signal } = generateSyntheticPpg({ seed: 3, durationSec: 30 });
+        const out = preprocessPPG(signal, DEFAULT_FILTER_CONFIG);
+        expect(out.length).toBe(signal.length);
+        expect(Math.abs(out.reduce((s, v) => s + v, 0) / out.length)).toBeLessThan(0.05);
+    });
+
+    it('returns an empty array for empty input', () => {
+        expect(preprocessPPG([])).toEqual([]);
+    });
+});
+
+describe('filterConfigForRate', () => {
+    const wide = { ...DEFAULT_FILTER_CONFIG, highCutoff: 20, samplingRate: 60 };
+
+    it('keeps a config the recording rate can carry', () => {
+        expect(filterConfigForRate(DEFAULT_FILTER_CONFIG, 60)).toEqual({ ...DEFAULT_FILTER_CONFIG, samplingRate: 60 });
+        expect(filterConfigForRate(wide, 60)).toEqual(wide);
+    });
+
+    it('pulls a high cutoff above Nyquist of a slower recording below it', () => {
+        const config = filterConfigForRate(wide, 30);
+        expect(config).toEqual({ ...wide, highCutoff: 14.2, samplingRate: 30 });
+        expect(preprocessPPG(generateSyntheticPpg({ seed: 3, durationSec: 10 }).signal, config)).toHaveLength(300);
+    });
+
+    it('falls back to the default filter when the passband is still empty', () => {
+        expect(filterConfigForRate({ ...wide, lowCutoff: 16 }, 30)).toEqual({ ...DEFAULT_FILTER_CONFIG, samplingRate: 30 });
+    });
+});
+
+describe('extractFeatures', () => {
+    const analyze = (signal: number[]) => extractFeatures(preprocessPPG(signal, DEFAULT_FILTER_CONFIG), FS);
+
+    it.each([
+        [55, 30], [72, 40], [95, 20], [120, 15]
+    ])('estimates HR at %i bpm (SDNN %i ms)', (heartRate, sdnn) => {
+        const { signal, labels } = generateSyntheticPpg({ seed: heartRate, heartRate, sdnn, durationSec: 60 });
+        const features = analyze(signal);
+        expect(features).toHaveLength(18);
+        expect(features.every(Number.isFinite)).toBe(true);
+        expect(Math.abs(features[6] - labels.heartRate)).toBeLessThan(2);
+    });
+
+    // HRV is the std of foot-to-foot beat durations in seconds; 30 Hz sampling adds
+    // ~10 ms of quantization, and below ~60 bpm the foot wanders in the long flat diastole
+    it.each([
+        [72, 40], [95, 20], [120, 15]
+    ])('estimates HRV at %i bpm (SDNN %i ms)', (heartRate, sdnn) => {
+        const { signal, labels } = generateSyntheticPpg({ seed: heartRate, heartRate, sdnn, durationSec: 60 });
+        expect(Math.abs(analyze(signal)[7] * 1000 - labels.sdnn)).toBeLessThan(15);
+    });
+
+    it('fills the SDPPG ratios on a signal with a full a-e complex', () => {
+        const { signal } = generateSyntheticPpg({ seed: 8, durationSec: 60, noise: 0.01 });
+        const features = analyze(signal);
+        expect(features[9]).toBeLessThan(0);    // b/a is negative
+        expect(features[13]).not.toBe(0);
+    });
+
+    it('rejects short, flat and pulseless signals', () => {
+        expect(() => extractFeatures(new Array(10).fill(1))).toThrow(/Signal too short/);
+        expect(() => extractFeatures(new Array(300).fill(1))).toThrow(/Signal flatline/);
+        const ramp = Array.from({ length: 300 }, (_, i) => i / 300);
+        expect(() => extractFeatures(ramp)).toThrow(/Not enough peaks/);
+    });
+});
+
+describe('performMathEstimation', () => {
+    const { signal } = generateSyntheticPpg({ seed: 21, durationSec: 60 });
+    const features = extractFeatures(preprocessPPG(signal, DEFAULT_FILTER_CONFIG), FS);
+
+    it('returns physiologically bounded values', () => {
+        const est = performMathEstimation(features, 45, 170, 70);
+        expect(est.sbp).toBeGreaterThanOrEqual(80);
+        expect(est.sbp).toBeLessThanOrEqual(200);
+        expect(est.dbp).toBeLessThan(est.sbp);
+        expect(est.glucose).toBeGreaterThan(50);
+    });
+
+    it('increases blood pressure with age', () => {
+        const young = performMathEstimation(features, 25, 170, 70);
+        const old = performMathEstimation(features, 75, 170, 70);
+        expect(old.sbp).toBeGreaterThan(young.sbp);
+    });
+});
+
+describe('golden signal', () => {
+    const golden: GoldenFixture = JSON.parse(fs.readFileSync(GOLDEN_PATH, 'utf8'));
+
+    // Reference features come from the Python training pipeline (scripts/golden_ppg.py)
+    it.skipIf(!golden.features)('matches the Python reference feature vector', () => {
+        const features = extractFeatures(preprocessPPG(golden.signal, { ...DEFAULT_FILTER_CONFIG, samplingRate: golden.samplingRate }), golden.samplingRate);
+        features.forEach((v, i) => {
+            const ref = golden.features![i];
+            const tol = golden.tolerance * Math.max(Math.abs(ref), 1e-3);
+            expect(Math.abs(v - ref), `${FEATURE_NAMES[i]}: ${v} vs ${ref} (${golden.source})`).toBeLessThanOrEqual(tol);
+        });
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { designBandpassSos } from '../filter-design';
+import { DEFAULT_FILTER_CONFIG, gaussianFilter1d, sosfilt, sosfiltZi } from '../signal-processing';
+import { BeatDetector, StreamingBandpass, StreamingGaussian, StreamingProcessor } from '../stream-processing';
+import { generateSyntheticPpg } from '../synthetic-ppg';
+
+const FS = 30;
+
+describe('StreamingBandpass', () => {
+    it('matches a batch causal filter started at steady state', () => {
+        const { signal } = generateSyntheticPpg({ seed: 5, durationSec: 10 });
+        const sos = designBandpassSos(DEFAULT_FILTER_CONFIG);
+        const batch = sosfilt(sos, signal, sosfiltZi(sos).map(zi => zi.map(z => z * signal[0])));
+        const stream = new StreamingBandpass(DEFAULT_FILTER_CONFIG);
+        signal.forEach((x, i) => expect(stream.process(x)).toBeCloseTo(batch[i], 9));
+    });
+});
+
+describe('StreamingGaussian', () => {
+    it('equals gaussianFilter1d delayed by 4 sigma', () => {
+        const x = Array.from({ length: 60 }, (_, i) => Math.sin(i / 3));
+        const batch = gaussianFilter1d(x, 2);
+        const stream = new StreamingGaussian(2);
+        const out = x.map(v => stream.process(v));
+        expect(out.slice(0, stream.delay).every(v => v === null)).toBe(true);
+        for (let i = stream.delay; i < x.length; i++) expect(out[i]).toBeCloseTo(batch[i - stream.delay], 12);
+    });
+});
+
+describe('BeatDetector', () => {
+    it('keeps the larger of two peaks inside the refractory period', () => {
+        const detector = new BeatDetector(FS);
+        const values = [0, 1, 0, 2, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0];
+        values.forEach((v, i) => detector.push(i * 1000 / FS, v));
+        expect(detector.beatTimes).toEqual([3 * 1000 / FS]);
+    });
+});
+
+describe('StreamingProcessor', () => {
+    it.each([[60], [90], [120]])('tracks heart rate at %i bpm', (heartRate) => {
+        const { signal, timestamps, labels } = generateSyntheticPpg({ seed: heartRate, heartRate, sdnn: 20, durationSec: 30 });
+        const processor = new StreamingProcessor(DEFAULT_FILTER_CONFIG);
+        signal.forEach((value, i) => processor.push({ timestamp: timestamps[i], value }));
+        const vitals = processor.getVitals();
+        expect(vitals.heartRate).not.toBeNull();
+        expect(Math.abs(vitals.heartRate! - labels.heartRate)).toBeLessThan(4);
+        expect(Math.abs(vitals.beats - labels.beats.length)).toBeLessThanOrEqual(2);
+        expect(vitals.quality?.label).not.toBe('Poor');
+    });
+
+    it('reports nothing before enough signal has arrived', () => {
+        const processor = new StreamingProcessor(DEFAULT_FILTER_CONFIG);
+        for (let i = 0; i < FS; i++) processor.push({ timestamp: i * 1000 / FS, value: 150 });
+        expect(processor.getVitals()).toEqual({ heartRate: null, beats: 0, quality: null });
+    });
+});
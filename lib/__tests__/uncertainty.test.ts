@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { CalibrationProfile, LinearFit } from '../calibration';
+import { DEFAULT_FILTER_CONFIG, FEATURE_NAMES, preprocessPPG } from '../signal-processing';
+import { generateSyntheticPpg } from '../synthetic-ppg';
+import { BASE_SD, estimateUncertainty, halfWidth, predictionSpread, qualityFactor, recalibrate, slidingWindowFeatures } from '../uncertainty';
+
+const FS = 30;
+const raw = { sbp: 120, dbp: 80, glucose: 100 };
+
+const fit = (slope: number, offset: number): LinearFit => ({ slope, offset, n: 2, rmse: 0, residuals: [] });
+const profile = (slope: number, offset: number): CalibrationProfile => ({
+    patientId: 'P0001',
+    modelId: 'ppg-bp-glucose',
+    points: [],
+    active: [],
+    fits: { sbp: fit(slope, offset), dbp: fit(slope, offset), glucose: fit(slope, offset) },
+    expired: false
+});
+
+describe('estimateUncertainty', () => {
+    it('uses the per-target floor for a perfect signal and no spread', () => {
+        const u = estimateUncertainty(raw, { qualityScore: 100 });
+        expect(u.intervals.sbp.value).toBe(120);
+        expect(u.intervals.sbp.sd).toBeCloseTo(BASE_SD.sbp, 9);
+        expect(halfWidth(u.intervals.sbp)).toBeCloseTo(1.96 * BASE_SD.sbp, 9);
+        expect(u.windowSd).toBeNull();
+        expect(u.ensembleSd).toBeNull();
+    });
+
+    it('widens with poor quality, window spread and model disagreement', () => {
+        expect(qualityFactor(100)).toBe(1);
+        expect(qualityFactor(50)).toBe(2);
+        expect(qualityFactor(0)).toBe(3);
+        expect(estimateUncertainty(raw, { qualityScore: 50 }).intervals.dbp.sd).toBeCloseTo(2 * BASE_SD.dbp, 9);
+
+        const windowPredictions = [{ sbp: 110, dbp: 80, glucose: 100 }, { sbp: 130, dbp: 80, glucose: 100 }];
+        expect(predictionSpread(windowPredictions)).toEqual({ sbp: 10, dbp: 0, glucose: 0 });
+        const u = estimateUncertainty(raw, { qualityScore: 100, windowPredictions, ensemblePredictions: [raw, { sbp: 120, dbp: 86, glucose: 100 }] });
+        expect(u.intervals.sbp.sd).toBeCloseTo(Math.hypot(BASE_SD.sbp, 10), 9);
+        expect(u.intervals.dbp.sd).toBeCloseTo(Math.hypot(BASE_SD.dbp, 3), 9);
+        expect(u.intervals.glucose.sd).toBeCloseTo(BASE_SD.glucose, 9);
+        expect(u).toMatchObject({ windows: 2, models: 2 });
+    });
+
+    it('maps the interval through the calibration fit', () => {
+        const u = estimateUncertainty(raw, { qualityScore: 100, profile: profile(-2, 400) });
+        expect(u.intervals.sbp.value).toBe(160);
+        expect(u.intervals.sbp.lower).toBeLessThan(160);
+        expect(u.intervals.sbp.upper).toBeGreaterThan(160);
+        expect(u.intervals.sbp.sd).toBeCloseTo(2 * BASE_SD.sbp, 9);
+
+        const back = recalibrate(u, raw, null);
+        expect(back.intervals.sbp.value).toBe(120);
+        expect(back.intervals.sbp.sd).toBeCloseTo(BASE_SD.sbp, 9);
+    });
+});
+
+describe('slidingWindowFeatures', () => {
+    it('extracts one feature vector per 10 s window with a 5 s step', () => {
+        const { signal } = generateSyntheticPpg({ seed: 3, durationSec: 40, heartRate: 70 });
+        const windows = slidingWindowFeatures(preprocessPPG(signal, DEFAULT_FILTER_CONFIG), FS);
+        expect(windows).toHaveLength(7);
+        windows.forEach(w => {
+            expect(w).toHaveLength(FEATURE_NAMES.length);
+            expect(w[6]).toBeGreaterThan(60);
+            expect(w[6]).toBeLessThan(80);
+        });
+    });
+
+    it('skips flat segments', () => {
+        expect(slidingWindowFeatures(new Array(20 * FS).fill(0), FS)).toEqual([]);
+    });
+});
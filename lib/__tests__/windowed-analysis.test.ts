@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_FILTER_CONFIG } from '../signal-processing';
+import { ModelManifest } from '../model-registry';
+import { generateSyntheticPpg } from '../synthetic-ppg';
+import { analyzeWindows, predictSeries, validateWindowConfig, vitalsSeriesToCsv } from '../windowed-analysis';
+
+const FS = 30;
+const demographics = { age: 40, height: 175, weight: 80 };
+const PUBLIC_DIR = path.join(__dirname, '..', '..', 'public');
+const bundled: ModelManifest = JSON.parse(fs.readFileSync(path.join(PUBLIC_DIR, 'models', 'ppg-bp-glucose-v1.json'), 'utf8'));
+const manifest: ModelManifest = { ...bundled, modelUrl: path.join(PUBLIC_DIR, bundled.modelUrl!) };
+
+describe('analyzeWindows', () => {
+    const { signal } = generateSyntheticPpg({ seed: 11, durationSec: 90, heartRate: 66 });
+    const series = analyzeWindows(signal, FS, DEFAULT_FILTER_CONFIG, demographics, { windowSec: 30, stepSec: 10 });
+
+    it('yields one point per window position', () => {
+        expect(series.points).toHaveLength(7);
+        expect(series.skipped).toBe(0);
+        expect(series.points.map(p => p.startSec)).toEqual([0, 10, 20, 30, 40, 50, 60]);
+        expect(series.points[6].endSec).toBe(90);
+    });
+
+    it('tracks HR and carries estimates and quality per window', () => {
+        series.points.forEach(p => {
+            expect(p.hr).toBeGreaterThan(60);
+            expect(p.hr).toBeLessThan(72);
+            expect(p.hrvMs).toBeGreaterThanOrEqual(0);
+            expect(p.quality).toBeGreaterThan(0);
+            expect(Number.isFinite(p.estimate.sbp)).toBe(true);
+        });
+    });
+
+    it('returns no points for a clip shorter than one window', () => {
+        expect(analyzeWindows(signal.slice(0, 20 * FS), FS, DEFAULT_FILTER_CONFIG, demographics).points).toEqual([]);
+    });
+
+    it('analyses a slower recording with a filter saved for a faster rate', () => {
+        const saved = { ...DEFAULT_FILTER_CONFIG, highCutoff: 20, samplingRate: 60 };
+        expect(analyzeWindows(signal, FS, saved, demographics, { windowSec: 30, stepSec: 10 }).points).toHaveLength(7);
+    });
+
+    it('rejects windows too short for feature extraction', () => {
+        expect(() => validateWindowConfig({ windowSec: 2, stepSec: 1 })).toThrow(/at least 5 s/);
+        expect(() => validateWindowConfig({ windowSec: 10, stepSec: 0 })).toThrow(/positive/);
+    });
+
+    it('adds model predictions per window and exports them', async () => {
+        const predicted = await predictSeries(series, manifest, demographics);
+        expect(predicted.points.every(p => p.predicted && Number.isFinite(p.predicted.sbp))).toBe(true);
+
+        const csv = vitalsSeriesToCsv(predicted, Date.UTC(2024, 0, 1)).split('\n');
+        expect(csv).toHaveLength(8);
+        expect(csv[0]).toBe('start_s,end_s,timestamp,hr_bpm,hrv_ms,quality,est_sbp,est_dbp,est_glucose,pred_sbp,pred_dbp,pred_glucose');
+        expect(csv[2].startsWith('10.0,40.0,2024-01-01T00:00:10.000Z,')).toBe(true);
+        expect(csv[1].split(',').every(v => v !== '')).toBe(true);
+    });
+});
@@ -1,5 +1,9 @@
 import { createContext } from 'react';
-import { FilterConfig } from '@/lib/signal-processing';
+import { FilterConfig, DEFAULT_FILTER_CONFIG } from '@/lib/signal-processing';
+import { resolveFilterConfig } from '@/lib/filter-design';
+import { DEFAULT_PROTOCOL_ID } from '@/lib/recording-protocol';
+import { DEFAULT_MODEL_ID } from '@/lib/model-registry';
+import { WindowConfig, DEFAULT_WINDOW_CONFIG } from '@/lib/windowed-analysis';
 
 export interface AppSettings {
   filterConfig: FilterConfig;
@@ -8,24 +12,44 @@ export interface AppSettings {
     autoScale: boolean;
   };
   recordingSpeed: number; // 0.25x, 0.5x, 1x, 1.5x, 2x
+  autoStartOnContact: boolean; // start once finger contact is stable
+  recordingProtocol: string; // RecordingProtocol id (when to auto-stop)
+  activeModelId: string; // ModelManifest id used for predictions
+  windowAnalysis: WindowConfig; // History vitals trends: window length / step (s)
   theme: 'light' | 'dark'; // light or dark mode
 }
 
 export const defaultSettings: AppSettings = {
-  filterConfig: {
-    lowCutoff: 0.5,
-    highCutoff: 50,
-    order: 4,
-    samplingRate: 30,
-  },
+  filterConfig: { ...DEFAULT_FILTER_CONFIG },
   graphPreferences: {
     showGrid: true,
     autoScale: true,
   },
   recordingSpeed: 1, // 1x = real-time
+  autoStartOnContact: false,
+  recordingProtocol: DEFAULT_PROTOCOL_ID,
+  activeModelId: DEFAULT_MODEL_ID,
+  windowAnalysis: { ...DEFAULT_WINDOW_CONFIG },
   theme: 'dark', // default to dark mode
 };
 
+/**
+ * Settings saved by any earlier version, filled from the defaults. A filter
+ * that no longer designs (e.g. the old 50 Hz high cutoff, above Nyquist at
+ * 30 fps) is reset to the 0.5-5 Hz band the model was trained on.
+ */
+export function migrateSettings(saved: Partial<AppSettings>): AppSettings {
+    const settings = { ...defaultSettings, ...saved };
+    const filterConfig = { ...DEFAULT_FILTER_CONFIG, ...saved.filterConfig };
+    try {
+        resolveFilterConfig(filterConfig);
+        settings.filterConfig = filterConfig;
+    } catch {
+        settings.filterConfig = { ...DEFAULT_FILTER_CONFIG };
+    }
+    return settings;
+}
+
 export const AppSettingsContext = createContext<{
   settings: AppSettings;
   updateSettings: (settings: Partial<AppSettings>) => void;
@@ -0,0 +1,190 @@
+/**
+ * lib/beat-segmentation.ts
+ * Splits a processed PPG into foot-to-foot cardiac cycles, measures per-beat
+ * morphology and rejects outlier beats so features use every clean beat.
+ */
+
+import { findPeaks } from './signal-processing';
+import { iqr, median, pearson } from './stats';
+
+export interface BeatMorphology {
+  index: number;
+  onset: number;            // Foot sample index
+  peak: number;             // Systolic peak sample index
+  end: number;              // Next foot sample index
+  duration: number;         // s (foot-to-foot)
+  riseTime: number;         // s (foot-to-peak)
+  footValue: number;
+  peakValue: number;
+  amplitude: number;        // peak - foot
+  sysSlope: number;         // Amplitude per sample on the upstroke
+  diaSlope: number;         // Decay per sample from peak to next foot
+  pw50: number;             // s, width above 50% of amplitude
+  pw75: number;             // s, width above 75% of amplitude
+  auc: number;              // Area above the foot baseline (units * s)
+  templateCorr: number;     // Shape correlation with the median beat
+  clean: boolean;
+  rejectReason?: string;
+}
+
+export type BeatMetric =
+  'duration' | 'riseTime' | 'amplitude' | 'sysSlope' | 'diaSlope' |
+  'pw50' | 'pw75' | 'auc' | 'footValue' | 'peakValue';
+
+export interface RobustStat {
+  median: number;
+  iqr: number;
+}
+
+export interface BeatSegmentation {
+  beats: BeatMorphology[];
+  cleanBeats: BeatMorphology[];
+  aggregates: Record<BeatMetric, RobustStat>;
+}
+
+const BEAT_METRICS: BeatMetric[] = [
+  'duration', 'riseTime', 'amplitude', 'sysSlope', 'diaSlope',
+  'pw50', 'pw75', 'auc', 'footValue', 'peakValue'
+];
+
+// Physiological limits: 30-180 BPM
+const MIN_BEAT_SEC = 60 / 180;
+const MAX_BEAT_SEC = 60 / 30;
+const OUTLIER_Z = 3.5;
+const MIN_TEMPLATE_CORR = 0.7;
+const TEMPLATE_LEN = 32;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function argExtreme(x: number[], from: number, to: number, sign: 1 | -1): number {
+    let best = from;
+    for (let i = from + 1; i <= to; i++) {
+        if (sign * x[i] > sign * x[best]) best = i;
+    }
+    return best;
+}
+
+/** Seconds the beat spends above `level` (fraction of amplitude over the foot). */
+function widthAbove(x: number[], onset: number, end: number, foot: number, amp: number, level: number, fs: number): number {
+    const thr = foot + level * amp;
+    let count = 0;
+    for (let i = onset; i <= end; i++) if (x[i] > thr) count++;
+    return count / fs;
+}
+
+/** Linear resample of a beat to a fixed length for shape comparison. */
+function resample(x: number[], len: number): number[] {
+    if (x.length < 2) return new Array(len).fill(x[0] ?? 0);
+    return new Array(len).fill(0).map((_, i) => {
+        const pos = (i * (x.length - 1)) / (len - 1);
+        const lo = Math.floor(pos), hi = Math.min(lo + 1, x.length - 1);
+        return x[lo] + (x[hi] - x[lo]) * (pos - lo);
+    });
+}
+
+/** Robust z-score using the median absolute deviation. */
+function robustZ(values: number[]): number[] {
+    const med = median(values);
+    const mad = median(values.map(v => Math.abs(v - med))) * 1.4826;
+    return values.map(v => mad > 0 ? Math.abs(v - med) / mad : 0);
+}
+
+// ============================================================================
+// SEGMENTATION
+// ============================================================================
+
+/** Foot (onset) indices: minimum between each pair of systolic peaks. */
+export function detectBeatOnsets(ppg: number[], fs: number): number[] {
+    const peaks = findPeaks(ppg, Math.max(1, Math.round(MIN_BEAT_SEC * fs)));
+    if (peaks.length < 2) return [];
+
+    // Drop small secondary peaks (e.g. residual dicrotic waves)
+    const ref = median(peaks.map(p => ppg[p]));
+    const floor = median(ppg);
+    const major = peaks.filter(p => ppg[p] - floor > 0.3 * (ref - floor));
+
+    const onsets: number[] = [];
+    for (let i = 1; i < major.length; i++) {
+        onsets.push(argExtreme(ppg, major[i - 1], major[i], -1));
+    }
+    return onsets;
+}
+
+export function segmentBeats(ppg: number[], fs: number): BeatSegmentation {
+    const onsets = detectBeatOnsets(ppg, fs);
+    const beats: BeatMorphology[] = [];
+
+    for (let i = 0; i < onsets.length - 1; i++) {
+        const onset = onsets[i];
+        const end = onsets[i + 1];
+        const peak = argExtreme(ppg, onset, end, 1);
+        const footValue = ppg[onset];
+        const peakValue = ppg[peak];
+        const amplitude = peakValue - footValue;
+
+        let auc = 0;
+        for (let k = onset; k < end; k++) auc += 0.5 * (ppg[k] + ppg[k + 1]) - footValue;
+
+        beats.push({
+            index: i,
+            onset, peak, end,
+            duration: (end - onset) / fs,
+            riseTime: (peak - onset) / fs,
+            footValue, peakValue, amplitude,
+            sysSlope: amplitude / Math.max(1, peak - onset),
+            diaSlope: (peakValue - ppg[end]) / Math.max(1, end - peak),
+            pw50: widthAbove(ppg, onset, end, footValue, amplitude, 0.5, fs),
+            pw75: widthAbove(ppg, onset, end, footValue, amplitude, 0.75, fs),
+            auc: auc / fs,
+            templateCorr: 0,
+            clean: true
+        });
+    }
+
+    rejectOutliers(ppg, beats);
+    const cleanBeats = beats.filter(b => b.clean);
+    return { beats, cleanBeats, aggregates: aggregateBeats(cleanBeats) };
+}
+
+/** Flags implausible, out-of-distribution or mis-shaped beats in place. */
+function rejectOutliers(ppg: number[], beats: BeatMorphology[]) {
+    for (const b of beats) {
+        if (b.duration < MIN_BEAT_SEC || b.duration > MAX_BEAT_SEC) {
+            b.clean = false;
+            b.rejectReason = 'duration';
+        } else if (b.amplitude <= 0) {
+            b.clean = false;
+            b.rejectReason = 'amplitude';
+        }
+    }
+
+    const plausible = beats.filter(b => b.clean);
+    if (plausible.length < 3) return;
+
+    const zDur = robustZ(plausible.map(b => b.duration));
+    const zAmp = robustZ(plausible.map(b => b.amplitude));
+    plausible.forEach((b, i) => {
+        if (zDur[i] > OUTLIER_Z) { b.clean = false; b.rejectReason = 'duration'; }
+        else if (zAmp[i] > OUTLIER_Z) { b.clean = false; b.rejectReason = 'amplitude'; }
+    });
+
+    const shaped = plausible.filter(b => b.clean);
+    if (shaped.length < 3) return;
+    const shapes = shaped.map(b => resample(ppg.slice(b.onset, b.end + 1), TEMPLATE_LEN));
+    const template = new Array(TEMPLATE_LEN).fill(0).map((_, i) => median(shapes.map(s => s[i])));
+    shaped.forEach((b, i) => {
+        b.templateCorr = pearson(shapes[i], template);
+        if (b.templateCorr < MIN_TEMPLATE_CORR) { b.clean = false; b.rejectReason = 'morphology'; }
+    });
+}
+
+export function aggregateBeats(beats: BeatMorphology[]): Record<BeatMetric, RobustStat> {
+    const out = {} as Record<BeatMetric, RobustStat>;
+    for (const m of BEAT_METRICS) {
+        const values = beats.map(b => b[m]);
+        out[m] = { median: median(values), iqr: iqr(values) };
+    }
+    return out;
+}
@@ -0,0 +1,161 @@
+/**
+ * lib/calibration.ts
+ * Per-patient calibration against reference cuff / glucometer readings.
+ * Each reading is stored as a point (model prediction vs reference); a
+ * Theil-Sen line (slope + offset) is fitted per output over the recent points
+ * of the model that made the predictions.
+ */
+
+import { openDatabase, request, done, STORES } from './database';
+import { median, mean } from './stats';
+
+export type CalibrationTarget = 'sbp' | 'dbp' | 'glucose';
+
+export const CALIBRATION_TARGETS: CalibrationTarget[] = ['sbp', 'dbp', 'glucose'];
+
+export type VitalValues = Record<CalibrationTarget, number>;
+
+export interface CalibrationPoint {
+  id?: number;              // Auto-increment key
+  patientId: string;
+  sessionId?: string;
+  modelId: string;          // ModelManifest id of the predicting model
+  timestamp: number;        // When the reference reading was taken
+  predicted: VitalValues;   // Uncalibrated model output
+  reference: VitalValues;   // Cuff / glucometer reading
+}
+
+export interface LinearFit {
+  slope: number;
+  offset: number;
+  n: number;
+  rmse: number;             // Of reference vs calibrated prediction
+  residuals: number[];      // Same order as the fitted points
+}
+
+export interface CalibrationProfile {
+  patientId: string;
+  modelId: string;
+  points: CalibrationPoint[];      // All of this model's points, newest first
+  active: CalibrationPoint[];      // Points within CALIBRATION_MAX_AGE_DAYS
+  fits: Record<CalibrationTarget, LinearFit>;
+  lastCalibrated?: number;
+  ageDays?: number;
+  expired: boolean;                // Has points, but none recent enough
+}
+
+export const CALIBRATION_MAX_AGE_DAYS = 30;
+
+// A single point (or points with ~equal predictions) only supports an offset
+const MIN_POINTS_FOR_SLOPE = 2;
+const MIN_PREDICTION_SPREAD = 1e-3;
+
+// Keep the fitted gain plausible when reference points are close together
+const SLOPE_RANGE: [number, number] = [0.5, 1.5];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const IDENTITY: LinearFit = { slope: 1, offset: 0, n: 0, rmse: 0, residuals: [] };
+
+// ============================================================================
+// FITTING
+// ============================================================================
+
+/** Theil-Sen estimator: median pairwise slope, median intercept. */
+export function fitLinear(x: number[], y: number[]): LinearFit {
+    const n = Math.min(x.length, y.length);
+    if (n === 0) return { ...IDENTITY };
+
+    const slopes: number[] = [];
+    if (n >= MIN_POINTS_FOR_SLOPE) {
+        for (let i = 0; i < n; i++) {
+            for (let j = i + 1; j < n; j++) {
+                const dx = x[j] - x[i];
+                if (Math.abs(dx) > MIN_PREDICTION_SPREAD) slopes.push((y[j] - y[i]) / dx);
+            }
+        }
+    }
+    const slope = slopes.length
+        ? Math.min(Math.max(median(slopes), SLOPE_RANGE[0]), SLOPE_RANGE[1])
+        : 1;
+    const offset = median(x.slice(0, n).map((xi, i) => y[i] - slope * xi));
+
+    const residuals = x.slice(0, n).map((xi, i) => y[i] - (slope * xi + offset));
+    const rmse = Math.sqrt(mean(residuals.map(r => r * r)));
+    return { slope, offset, n, rmse, residuals };
+}
+
+/** Fits only the points predicted by `modelId`; another model's offsets do not transfer. */
+export function buildProfile(patientId: string, modelId: string, points: CalibrationPoint[], now: number = Date.now()): CalibrationProfile {
+    const sorted = points.filter(p => p.modelId === modelId).sort((a, b) => b.timestamp - a.timestamp);
+    const active = sorted.filter(p => now - p.timestamp <= CALIBRATION_MAX_AGE_DAYS * DAY_MS);
+
+    const fits = {} as Record<CalibrationTarget, LinearFit>;
+    for (const t of CALIBRATION_TARGETS) {
+        fits[t] = fitLinear(active.map(p => p.predicted[t]), active.map(p => p.reference[t]));
+    }
+
+    const lastCalibrated = sorted[0]?.timestamp;
+    return {
+        patientId,
+        modelId,
+        points: sorted,
+        active,
+        fits,
+        lastCalibrated,
+        ageDays: lastCalibrated !== undefined ? (now - lastCalibrated) / DAY_MS : undefined,
+        expired: sorted.length > 0 && active.length === 0
+    };
+}
+
+/** Applies the patient's fit; raw values pass through when there is none. */
+export function applyCalibration(raw: VitalValues, profile: CalibrationProfile | null): VitalValues {
+    const out = { ...raw };
+    if (!profile) return out;
+    for (const t of CALIBRATION_TARGETS) {
+        const fit = profile.fits[t];
+        if (fit.n > 0) out[t] = fit.slope * raw[t] + fit.offset;
+    }
+    return out;
+}
+
+// ============================================================================
+// STORAGE API
+// ============================================================================
+
+export class CalibrationStore {
+  async getPoints(patientId: string): Promise<CalibrationPoint[]> {
+    if (typeof window === 'undefined') return [];
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.calibrations, 'readonly');
+    const index = tx.objectStore(STORES.calibrations).index('patientId');
+    return request(index.getAll(patientId) as IDBRequest<CalibrationPoint[]>);
+  }
+
+  async getProfile(patientId: string, modelId: string): Promise<CalibrationProfile> {
+    return buildProfile(patientId, modelId, await this.getPoints(patientId));
+  }
+
+  async addPoint(point: CalibrationPoint): Promise<CalibrationPoint> {
+    const { id, ...rest } = point;
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.calibrations, 'readwrite');
+    const req = tx.objectStore(STORES.calibrations).add(rest);
+    await done(tx);
+    return { ...rest, id: req.result as number };
+  }
+
+  async deletePoint(id: number) {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.calibrations, 'readwrite');
+    tx.objectStore(STORES.calibrations).delete(id);
+    await done(tx);
+  }
+
+  async clearAll() {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.calibrations, 'readwrite');
+    tx.objectStore(STORES.calibrations).clear();
+    await done(tx);
+  }
+}
@@ -1,7 +1,10 @@
+import { generateSyntheticPpg } from './synthetic-ppg';
+
 export class RPPGAcquisition {
     private frameInterval: number;
     private stream: MediaStream | null = null;
     private track: MediaStreamTrack | null = null;
+    private ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null = null;
   
     constructor(targetFps: number = 30) {
       this.frameInterval = 1000 / targetFps;
@@ -80,47 +83,111 @@ export class RPPGAcquisition {
      * Removed internal throttling to allow caller (setInterval) to control rate.
      */
     extractSignal(video: HTMLVideoElement): number {
-      const canvas = document.createElement('canvas');
-      // Low resolution is sufficient for avg color
-      canvas.width = 40; 
-      canvas.height = 40;
-      const ctx = canvas.getContext('2d', { willReadFrequently: true });
-      
-      if (!ctx) return 0;
+      return this.extractFrame(video)?.red ?? 0;
+    }
+
+    /**
+     * Per-frame colour statistics of the center crop, used for the PPG sample
+     * (red mean) and for live finger-placement / exposure feedback.
+     */
+    extractFrame(video: HTMLVideoElement): FrameStats | null {
+      const ctx = this.ctx ?? (this.ctx = createFrameContext());
+      if (!ctx) return null;
   
-      // Draw center crop (50% width/height)
       const vw = video.videoWidth;
       const vh = video.videoHeight;
-      if (vw === 0 || vh === 0) return 0;
+      if (vw === 0 || vh === 0) return null;
 
-      ctx.drawImage(video, vw/4, vh/4, vw/2, vh/2, 0, 0, canvas.width, canvas.height);
-  
-      const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
-      const data = frame.data;
-      
-      let sumRed = 0;
-      let count = 0;
-  
-      for (let i = 0; i < data.length; i += 4) {
-        sumRed += data[i]; // Red channel
-        count++;
-      }
+      const [sx, sy, sw, sh] = centerCrop(vw, vh);
+      ctx.drawImage(video, sx, sy, sw, sh, 0, 0, FRAME_SIZE, FRAME_SIZE);
   
-      return count > 0 ? sumRed / count : 0;
+      return computeFrameStats(ctx.getImageData(0, 0, FRAME_SIZE, FRAME_SIZE).data, FRAME_SIZE);
     }
 }
-  
-export function generateSimulatedSignal(baseHeartRate: number, samplingRate: number, seconds: number): number[] {
-    const samples = samplingRate * seconds;
-    const signal: number[] = [];
-    for (let i = 0; i < samples; i++) {
-      const t = i / samplingRate;
-      const pulse = -Math.cos(2 * Math.PI * (baseHeartRate / 60) * t);
-      const dicrotic = 0.5 * Math.cos(2 * Math.PI * (baseHeartRate / 60) * 2 * t + 0.5);
-      const resp = 0.2 * Math.sin(2 * Math.PI * 0.25 * t);
-      const noise = (Math.random() - 0.5) * 0.1;
-      
-      signal.push(100 + 10 * (pulse + dicrotic + resp + noise));
+
+// ============================================================================
+// FRAME STATISTICS & FINGER CONTACT
+// ============================================================================
+
+export interface FrameStats {
+  red: number;         // Mean channel intensities (0-255)
+  green: number;
+  blue: number;
+  saturation: number;  // Fraction of pixels with a clipped red channel
+  uniformity: number;  // 1 - coefficient of variation of red across a block grid (0-1)
+}
+
+export type FingerContact = 'no-finger' | 'too-dark' | 'press-lighter' | 'finger-detected';
+
+// Low resolution is sufficient for avg color
+export const FRAME_SIZE = 40;
+const GRID = 4;
+const SATURATED_RED = 250;
+
+/** Center crop (50% width/height) as [sx, sy, sw, sh]. */
+export const centerCrop = (vw: number, vh: number): [number, number, number, number] => [vw / 4, vh / 4, vw / 2, vh / 2];
+
+/** Reusable FRAME_SIZE² 2D context (OffscreenCanvas where available; also used inside the frame worker). */
+export function createFrameContext(): CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null {
+    if (typeof OffscreenCanvas !== 'undefined') {
+      return new OffscreenCanvas(FRAME_SIZE, FRAME_SIZE).getContext('2d', { willReadFrequently: true });
+    }
+    if (typeof document === 'undefined') return null;
+    const canvas = document.createElement('canvas');
+    canvas.width = FRAME_SIZE;
+    canvas.height = FRAME_SIZE;
+    return canvas.getContext('2d', { willReadFrequently: true });
+}
+
+export function computeFrameStats(data: Uint8ClampedArray, width: number): FrameStats {
+    const blockSize = width / GRID;
+    const blockSums = new Array(GRID * GRID).fill(0);
+    const blockCounts = new Array(GRID * GRID).fill(0);
+
+    let sumR = 0, sumG = 0, sumB = 0, saturated = 0;
+    const count = data.length / 4;
+
+    for (let i = 0; i < data.length; i += 4) {
+      const r = data[i];
+      sumR += r;
+      sumG += data[i + 1];
+      sumB += data[i + 2];
+      if (r >= SATURATED_RED) saturated++;
+
+      const px = (i / 4) % width;
+      const py = Math.floor(i / 4 / width);
+      const block = Math.min(GRID - 1, Math.floor(py / blockSize)) * GRID + Math.min(GRID - 1, Math.floor(px / blockSize));
+      blockSums[block] += r;
+      blockCounts[block]++;
     }
-    return signal;
+
+    if (count === 0) return { red: 0, green: 0, blue: 0, saturation: 0, uniformity: 0 };
+
+    const blockMeans = blockSums.map((s, i) => blockCounts[i] ? s / blockCounts[i] : 0);
+    const m = blockMeans.reduce((a, b) => a + b, 0) / blockMeans.length;
+    const sd = Math.sqrt(blockMeans.reduce((a, b) => a + (b - m) * (b - m), 0) / blockMeans.length);
+
+    return {
+      red: sumR / count,
+      green: sumG / count,
+      blue: sumB / count,
+      saturation: saturated / count,
+      uniformity: m > 0 ? Math.max(0, 1 - sd / m) : 0
+    };
+}
+
+/**
+ * Classifies finger placement from a frame. A fingertip over the torch gives a
+ * uniform, red-dominant image; too much pressure or light clips the red channel.
+ */
+export function assessFingerContact(stats: FrameStats): FingerContact {
+    if (stats.red < 40) return 'too-dark';
+    const redDominant = stats.red > 1.5 * stats.green && stats.red > 1.5 * stats.blue;
+    if (!redDominant || stats.uniformity < 0.75) return 'no-finger';
+    if (stats.saturation > 0.3) return 'press-lighter';
+    return 'finger-detected';
+}
+
+export function generateSimulatedSignal(baseHeartRate: number, samplingRate: number, seconds: number): number[] {
+    return generateSyntheticPpg({ heartRate: baseHeartRate, samplingRate, durationSec: seconds }).signal;
 }
\ No newline at end of file
@@ -0,0 +1,207 @@
+/**
+ * lib/database.ts
+ * Shared IndexedDB connection and schema migrations for all on-device stores
+ * (sessions, signal chunks, patients, calibrations, imported models).
+ */
+
+import { packSignal } from './signal-codec';
+
+const DB_NAME = 'ppg-signal-monitor';
+const DB_VERSION = 6;
+
+export const STORES = {
+  sessions: 'sessions',
+  signalChunks: 'signalChunks',
+  patients: 'patients',
+  calibrations: 'calibrations',
+  models: 'models',
+} as const;
+
+// Pre-IndexedDB localStorage keys (imported once by migrations)
+export const LEGACY_SESSIONS_KEY = 'ppg_sessions';
+const LEGACY_USER_DETAILS_KEY = 'ppg_user_details';
+const LEGACY_CALIBRATION_KEY = 'calibration_offsets';
+
+// Chunk size used by the v1 import
+const LEGACY_CHUNK_SIZE = 1800;
+
+// Bundled model id (DEFAULT_MODEL_ID); the only model before the registry
+const LEGACY_CALIBRATION_MODEL_ID = 'ppg-bp-glucose';
+
+// ============================================================================
+// SCHEMA MIGRATIONS
+// ============================================================================
+
+/**
+ * Keyed by the version they upgrade *to*. Each runs inside the versionchange
+ * transaction, in order, for every version above the one on disk.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db, tx) => {
+    db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+    db.createObjectStore(STORES.signalChunks, { keyPath: ['sessionId', 'index'] });
+    importLegacySessions(tx);
+  },
+  // v2: chunks hold codec-encoded bytes instead of {timestamp, value} arrays
+  2: (_db, tx) => {
+    const req = tx.objectStore(STORES.signalChunks).openCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      const { samples, ...rest } = cursor.value;
+      if (samples) cursor.update({ ...rest, data: packSignal(samples) });
+      cursor.continue();
+    };
+  },
+  // v3: patient registry, seeded from the single legacy user and session names
+  3: (db, tx) => {
+    db.createObjectStore(STORES.patients, { keyPath: 'id' });
+    importLegacyPatients(tx);
+  },
+  // v4: per-patient calibration points. The old global offsets belong to no
+  // patient and cannot be refitted, so they are dropped.
+  4: (db, tx) => {
+    const store = db.createObjectStore(STORES.calibrations, { keyPath: 'id', autoIncrement: true });
+    store.createIndex('patientId', 'patientId');
+    tx.addEventListener('complete', () => localStorage.removeItem(LEGACY_CALIBRATION_KEY));
+  },
+  // v5: user-imported ONNX models (manifest + bytes), keyed by manifest id
+  5: (db) => {
+    db.createObjectStore(STORES.models, { keyPath: 'id' });
+  },
+  // v6: calibration points record the model they were fitted against
+  6: (_db, tx) => {
+    const req = tx.objectStore(STORES.calibrations).openCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      if (!cursor.value.modelId) cursor.update({ ...cursor.value, modelId: LEGACY_CALIBRATION_MODEL_ID });
+      cursor.continue();
+    };
+  },
+};
+
+/** v1 chunk layout: plain sample arrays (converted by migration v2). */
+function importLegacySessions(tx: IDBTransaction) {
+  const legacy = localStorage.getItem(LEGACY_SESSIONS_KEY);
+  if (!legacy) return;
+  try {
+    JSON.parse(legacy).forEach((x: any) => {
+      const { rawSignal = [], ...meta } = x;
+      const chunkCount = Math.ceil(rawSignal.length / LEGACY_CHUNK_SIZE);
+      for (let i = 0; i < chunkCount; i++) {
+        tx.objectStore(STORES.signalChunks).put({
+          sessionId: x.id,
+          index: i,
+          samples: rawSignal.slice(i * LEGACY_CHUNK_SIZE, (i + 1) * LEGACY_CHUNK_SIZE)
+        });
+      }
+      tx.objectStore(STORES.sessions).put({
+        ...meta,
+        createdAt: new Date(x.createdAt),
+        sampleCount: rawSignal.length,
+        chunkCount
+      });
+    });
+    tx.addEventListener('complete', () => localStorage.removeItem(LEGACY_SESSIONS_KEY));
+  } catch (e) {
+    console.error("Failed to import legacy sessions", e);
+  }
+}
+
+/** Creates one patient per distinct name and links existing sessions to it. */
+function importLegacyPatients(tx: IDBTransaction) {
+  const patients = tx.objectStore(STORES.patients);
+  const byName = new Map<string, string>();
+  const now = Date.now();
+
+  const addPatient = (name: string, age?: number, height?: number, weight?: number): string | undefined => {
+    const key = name.trim().toLowerCase();
+    if (!key) return undefined;
+    const existing = byName.get(key);
+    if (existing) return existing;
+    const id = `P${String(byName.size + 1).padStart(4, '0')}`;
+    byName.set(key, id);
+    patients.put({
+      id,
+      name: name.trim(),
+      sex: 'unspecified',
+      dateOfBirth: age ? `${new Date().getFullYear() - Math.round(age)}-01-01` : undefined,
+      height,
+      weight,
+      medications: [],
+      notes: age ? 'Date of birth estimated from recorded age.' : '',
+      createdAt: now,
+      updatedAt: now
+    });
+    return id;
+  };
+
+  try {
+    const details = JSON.parse(localStorage.getItem(LEGACY_USER_DETAILS_KEY) || 'null');
+    if (details?.name) {
+      addPatient(details.name, parseFloat(details.age) || undefined, parseFloat(details.height) || undefined, parseFloat(details.weight) || undefined);
+    }
+  } catch (e) {
+    console.error("Failed to import legacy user details", e);
+  }
+
+  const req = tx.objectStore(STORES.sessions).openCursor();
+  req.onsuccess = () => {
+    const cursor = req.result;
+    if (!cursor) return;
+    const s = cursor.value;
+    if (!s.patientId && s.patientName) {
+      const patientId = addPatient(s.patientName, s.age, s.height, s.weight);
+      if (patientId) cursor.update({ ...s, patientId });
+    }
+    cursor.continue();
+  };
+  tx.addEventListener('complete', () => localStorage.removeItem(LEGACY_USER_DETAILS_KEY));
+}
+
+// ============================================================================
+// INDEXEDDB HELPERS
+// ============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB not supported"));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (event) => {
+      const db = req.result;
+      const tx = req.transaction!;
+      for (let v = event.oldVersion + 1; v <= DB_VERSION; v++) MIGRATIONS[v]?.(db, tx);
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Another tab upgraded the schema: release so it can proceed
+      db.onversionchange = () => { db.close(); dbPromise = null; };
+      resolve(db);
+    };
+    req.onerror = () => { dbPromise = null; reject(req.error); };
+    req.onblocked = () => console.warn("Database upgrade blocked by another open tab.");
+  });
+  return dbPromise;
+}
+
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+}
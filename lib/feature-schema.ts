@@ -0,0 +1,101 @@
+/**
+ * lib/feature-schema.ts
+ * Named, typed model inputs: the 18 extractFeatures values plus
+ * demographics, with units and expected ranges. Serializes to a model's
+ * input order (optionally z-scored) and flags bad values before inference.
+ */
+
+import { FEATURE_NAMES } from './signal-processing';
+
+export type FeatureName = typeof FEATURE_NAMES[number];
+export type DemographicName = 'age' | 'height' | 'weight';
+export type InputName = FeatureName | DemographicName;
+
+export type Demographics = Record<DemographicName, number>;
+export type FeatureVector = Record<InputName, number>;
+
+export interface FeatureSpec {
+  label: string;
+  unit: string;
+  range: [number, number];   // Expected values; outside is flagged, not rejected
+}
+
+export interface FeatureNormalization {
+  mean: number[];            // Per input, in the serialized order
+  std: number[];
+}
+
+export interface FeatureIssue {
+  name: string;
+  value: number | undefined;
+  severity: 'error' | 'warning';   // error: cannot run inference
+  message: string;
+}
+
+export const DEMOGRAPHIC_NAMES: DemographicName[] = ['age', 'height', 'weight'];
+export const INPUT_NAMES: InputName[] = [...FEATURE_NAMES, ...DEMOGRAPHIC_NAMES];
+
+// Signal amplitude features are in filtered red-channel units (a.u.)
+export const FEATURE_SCHEMA: Record<InputName, FeatureSpec> = {
+  RI:             { label: 'Reflection index (foot / peak)', unit: 'ratio', range: [-3, 1] },
+  AIx:            { label: 'Augmentation index (range / peak)', unit: 'ratio', range: [0, 500] },
+  sys_slope:      { label: 'Systolic upstroke slope', unit: 'a.u./sample', range: [0, 50] },
+  dia_slope:      { label: 'Diastolic decay slope', unit: 'a.u./sample', range: [0, 50] },
+  PW50:           { label: 'Pulse width at 50%', unit: 's', range: [0.05, 1.5] },
+  PW75:           { label: 'Pulse width at 75%', unit: 's', range: [0.02, 1] },
+  HR:             { label: 'Heart rate', unit: 'bpm', range: [30, 200] },
+  HRV:            { label: 'Heart rate variability (SDNN)', unit: 's', range: [0, 0.5] },
+  AUC:            { label: 'Area under the curve', unit: 'a.u.·sample', range: [-1000, 1000] },
+  BA:             { label: 'SDPPG b/a', unit: 'ratio', range: [-3, 0.5] },
+  CA:             { label: 'SDPPG c/a', unit: 'ratio', range: [-1.5, 2] },
+  DA:             { label: 'SDPPG d/a', unit: 'ratio', range: [-1.5, 1] },
+  EA:             { label: 'SDPPG e/a', unit: 'ratio', range: [-1, 1.5] },
+  STIFF:          { label: 'SDPPG stiffness |a-b| (z-scored)', unit: 'z', range: [0, 10] },
+  mean_ppg:       { label: 'Filtered signal mean', unit: 'a.u.', range: [-1, 1] },
+  std_ppg:        { label: 'Filtered signal std', unit: 'a.u.', range: [0.01, 100] },
+  baseline_trend: { label: 'Baseline trend', unit: 'a.u./sample', range: [-0.05, 0.05] },
+  LF:             { label: 'Low-frequency power', unit: 'a.u.²', range: [0, 100] },
+  age:            { label: 'Age', unit: 'years', range: [1, 120] },
+  height:         { label: 'Height', unit: 'cm', range: [50, 250] },
+  weight:         { label: 'Weight', unit: 'kg', range: [2, 300] },
+};
+
+export const isInputName = (name: string): name is InputName => name in FEATURE_SCHEMA;
+
+/** Names an extractFeatures array and attaches demographics. */
+export function toFeatureVector(features: number[], demographics: Demographics): FeatureVector {
+    if (features.length !== FEATURE_NAMES.length) {
+        throw new Error(`Expected ${FEATURE_NAMES.length} features, got ${features.length}.`);
+    }
+    const vector = { ...demographics } as FeatureVector;
+    FEATURE_NAMES.forEach((name, i) => { vector[name] = features[i]; });
+    return vector;
+}
+
+/** Non-finite values are errors; values outside FEATURE_SCHEMA ranges are warnings. */
+export function validateFeatures(vector: Partial<FeatureVector>, names: readonly string[] = INPUT_NAMES): FeatureIssue[] {
+    const issues: FeatureIssue[] = [];
+    for (const name of names) {
+        if (!isInputName(name)) {
+            issues.push({ name, value: undefined, severity: 'error', message: `${name}: unknown input` });
+            continue;
+        }
+        const value = vector[name];
+        const spec = FEATURE_SCHEMA[name];
+        if (value === undefined || !Number.isFinite(value)) {
+            issues.push({ name, value, severity: 'error', message: `${name}: ${value === undefined ? 'missing' : value}` });
+        } else if (value < spec.range[0] || value > spec.range[1]) {
+            issues.push({ name, value, severity: 'warning', message: `${name}: ${+value.toPrecision(3)} ${spec.unit} outside ${spec.range[0]} to ${spec.range[1]}` });
+        }
+    }
+    return issues;
+}
+
+/** Values in `order`, z-scored per position when `normalization` is given. */
+export function serializeFeatures(vector: FeatureVector, order: readonly string[], normalization?: FeatureNormalization): Float32Array {
+    return Float32Array.from(order.map((name, i) => {
+        if (!isInputName(name)) throw new Error(`Unknown model input "${name}".`);
+        const v = vector[name];
+        return normalization ? (v - normalization.mean[i]) / normalization.std[i] : v;
+    }));
+}
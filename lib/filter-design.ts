@@ -0,0 +1,227 @@
+/**
+ * lib/filter-design.ts
+ * Runtime IIR bandpass design (Butterworth / Chebyshev I).
+ * Mirrors scipy.signal.butter / cheby1 with btype='band' so coefficients
+ * match the Python training pipeline for any cutoff, order and sampling rate.
+ */
+
+import type { FilterConfig } from './signal-processing';
+
+export interface FilterCoefficients {
+  b: number[];
+  a: number[];
+}
+
+/** Second-order sections, scipy layout: [b0, b1, b2, 1, a1, a2] per row. */
+export type SosCoefficients = number[][];
+
+// Default passband ripple for Chebyshev I (dB)
+const DEFAULT_RIPPLE_DB = 0.5;
+// Keep the upper edge safely below Nyquist
+export const MAX_NYQUIST_FRACTION = 0.95;
+
+// ============================================================================
+// COMPLEX ARITHMETIC
+// ============================================================================
+
+interface Complex {
+  re: number;
+  im: number;
+}
+
+const cx = (re: number, im: number = 0): Complex => ({ re, im });
+const cAdd = (x: Complex, y: Complex): Complex => cx(x.re + y.re, x.im + y.im);
+const cSub = (x: Complex, y: Complex): Complex => cx(x.re - y.re, x.im - y.im);
+const cMul = (x: Complex, y: Complex): Complex => cx(x.re * y.re - x.im * y.im, x.re * y.im + x.im * y.re);
+const cScale = (x: Complex, s: number): Complex => cx(x.re * s, x.im * s);
+
+function cDiv(x: Complex, y: Complex): Complex {
+    const den = y.re * y.re + y.im * y.im;
+    return cx((x.re * y.re + x.im * y.im) / den, (x.im * y.re - x.re * y.im) / den);
+}
+
+function cSqrt(x: Complex): Complex {
+    const mag = Math.hypot(x.re, x.im);
+    const re = Math.sqrt((mag + x.re) / 2);
+    const im = Math.sqrt(Math.max(0, (mag - x.re) / 2));
+    return cx(re, x.im < 0 ? -im : im);
+}
+
+// ============================================================================
+// ZPK DESIGN STAGES
+// ============================================================================
+
+interface ZPK {
+  z: Complex[];
+  p: Complex[];
+  k: number;
+}
+
+function butterworthPrototype(order: number): ZPK {
+    const p: Complex[] = [];
+    for (let m = -order + 1; m < order; m += 2) {
+        const theta = (Math.PI * m) / (2 * order);
+        p.push(cx(-Math.cos(theta), -Math.sin(theta)));
+    }
+    return { z: [], p, k: 1 };
+}
+
+function chebyshev1Prototype(order: number, rippleDb: number): ZPK {
+    const eps = Math.sqrt(Math.pow(10, 0.1 * rippleDb) - 1);
+    const mu = Math.asinh(1 / eps) / order;
+    const p: Complex[] = [];
+    for (let m = -order + 1; m < order; m += 2) {
+        const theta = (Math.PI * m) / (2 * order);
+        // p = -sinh(mu + j*theta)
+        p.push(cx(-Math.sinh(mu) * Math.cos(theta), -Math.cosh(mu) * Math.sin(theta)));
+    }
+    let k = p.reduce((acc, pi) => cMul(acc, cScale(pi, -1)), cx(1)).re;
+    if (order % 2 === 0) k /= Math.sqrt(1 + eps * eps);
+    return { z: [], p, k };
+}
+
+/** Lowpass prototype -> analog bandpass centred on wo with bandwidth bw. */
+function lowpassToBandpass({ z, p, k }: ZPK, wo: number, bw: number): ZPK {
+    const degree = p.length - z.length;
+    const wo2 = cx(wo * wo);
+    const split = (roots: Complex[]) => {
+        const out: Complex[] = [];
+        const scaled = roots.map(r => cScale(r, bw / 2));
+        for (const r of scaled) out.push(cAdd(r, cSqrt(cSub(cMul(r, r), wo2))));
+        for (const r of scaled) out.push(cSub(r, cSqrt(cSub(cMul(r, r), wo2))));
+        return out;
+    };
+    const zBp = split(z);
+    for (let i = 0; i < degree; i++) zBp.push(cx(0));
+    return { z: zBp, p: split(p), k: k * Math.pow(bw, degree) };
+}
+
+/** Analog -> digital via the bilinear transform (fs2 = 2 * fs). */
+function bilinear({ z, p, k }: ZPK, fs2: number): ZPK {
+    const degree = p.length - z.length;
+    const f = cx(fs2);
+    const zD = z.map(r => cDiv(cAdd(f, r), cSub(f, r)));
+    const pD = p.map(r => cDiv(cAdd(f, r), cSub(f, r)));
+    for (let i = 0; i < degree; i++) zD.push(cx(-1));
+    const num = z.reduce((acc, r) => cMul(acc, cSub(f, r)), cx(1));
+    const den = p.reduce((acc, r) => cMul(acc, cSub(f, r)), cx(1));
+    return { z: zD, p: pD, k: k * cDiv(num, den).re };
+}
+
+/** Expands roots into real polynomial coefficients (highest power first). */
+function poly(roots: Complex[]): number[] {
+    let coeffs: Complex[] = [cx(1)];
+    for (const r of roots) {
+        const next: Complex[] = new Array(coeffs.length + 1).fill(null).map(() => cx(0));
+        for (let i = 0; i < coeffs.length; i++) {
+            next[i] = cAdd(next[i], coeffs[i]);
+            next[i + 1] = cSub(next[i + 1], cMul(coeffs[i], r));
+        }
+        coeffs = next;
+    }
+    return coeffs.map(c => c.re);
+}
+
+/**
+ * Groups ZPK roots into biquads (scipy zpk2sos, pairing='nearest'): each pole
+ * pair takes the zeros closest to it, starting with the poles nearest the unit
+ * circle, which end up in the last sections. The gain goes into the first.
+ */
+function zpkToSos({ z, p, k }: ZPK): SosCoefficients {
+    const isReal = (r: Complex) => Math.abs(r.im) < 1e-10;
+    const dist = (x: Complex, y: Complex) => Math.hypot(x.re - y.re, x.im - y.im);
+    const takeNearest = (pool: Complex[], to: Complex, filter: (r: Complex) => boolean = () => true) => {
+        let best = -1;
+        pool.forEach((r, i) => { if (filter(r) && (best < 0 || dist(r, to) < dist(pool[best], to))) best = i; });
+        return best < 0 ? null : pool.splice(best, 1)[0];
+    };
+
+    // One representative per conjugate pair (upper half plane), reals paired up
+    const poles = p.filter(r => isReal(r) || r.im > 0).map(r => isReal(r) ? cx(r.re) : r);
+    const zeros = z.filter(r => isReal(r) || r.im > 0).map(r => isReal(r) ? cx(r.re) : r);
+
+    const sections: SosCoefficients = [];
+    while (poles.length > 0) {
+        // Pole closest to the unit circle first
+        poles.sort((x, y) => Math.abs(1 - Math.hypot(y.re, y.im)) - Math.abs(1 - Math.hypot(x.re, x.im)));
+        const p1 = poles.pop()!;
+        const sectionPoles = isReal(p1) ? [p1, takeNearest(poles, p1, isReal)].filter((r): r is Complex => r !== null) : [p1, cx(p1.re, -p1.im)];
+
+        const sectionZeros: Complex[] = [];
+        const z1 = takeNearest(zeros, p1);
+        if (z1 && !isReal(z1)) sectionZeros.push(z1, cx(z1.re, -z1.im));
+        else if (z1) {
+            sectionZeros.push(z1);
+            const z2 = takeNearest(zeros, p1, isReal);
+            if (z2) sectionZeros.push(z2);
+        }
+
+        const pad = (c: number[]) => [...c, 0, 0].slice(0, 3);
+        sections.unshift([...pad(poly(sectionZeros)), ...pad(poly(sectionPoles))]);
+    }
+    if (sections.length === 0) sections.push([1, 0, 0, 1, 0, 0]);
+    for (let i = 0; i < 3; i++) sections[0][i] *= k;
+    return sections;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Validates a config against its sampling rate and normalises the order.
+ * Throws on a passband that cannot be designed (empty, non-positive or too
+ * close to Nyquist); saved settings are migrated before they get here.
+ */
+export function resolveFilterConfig(config: FilterConfig): FilterConfig {
+    const fs = config.samplingRate;
+    if (!(fs > 0)) throw new Error(`Invalid sampling rate (${fs} Hz).`);
+
+    const { lowCutoff, highCutoff } = config;
+    const maxHigh = (fs / 2) * MAX_NYQUIST_FRACTION;
+    if (!(lowCutoff > 0) || !(lowCutoff < highCutoff)) {
+        throw new Error(`Invalid passband (${lowCutoff}-${highCutoff} Hz).`);
+    }
+    if (!(highCutoff < maxHigh)) {
+        throw new Error(`High cutoff ${highCutoff} Hz must be below ${maxHigh.toFixed(2)} Hz at ${fs} Hz.`);
+    }
+    if (!Number.isFinite(config.order)) throw new Error(`Invalid filter order (${config.order}).`);
+    const order = Math.min(Math.max(Math.round(config.order), 1), 8);
+
+    return { ...config, order };
+}
+
+/**
+ * Designs a digital bandpass filter from a FilterConfig.
+ * Like scipy, an order-N bandpass has 2N poles (2N + 1 coefficients).
+ */
+export function designBandpass(config: FilterConfig): FilterCoefficients {
+    const digital = designBandpassZpk(config);
+    const b = poly(digital.z).map(v => v * digital.k);
+    const a = poly(digital.p);
+    return { b, a };
+}
+
+/**
+ * Same filter as second-order sections (scipy output='sos'), numerically
+ * stable at high orders and low cutoffs where the expanded b/a is not.
+ */
+export function designBandpassSos(config: FilterConfig): SosCoefficients {
+    return zpkToSos(designBandpassZpk(config));
+}
+
+function designBandpassZpk(config: FilterConfig): ZPK {
+    const { lowCutoff, highCutoff, order, samplingRate: fs, type, rippleDb } = resolveFilterConfig(config);
+
+    const prototype = type === 'chebyshev1'
+        ? chebyshev1Prototype(order, rippleDb ?? DEFAULT_RIPPLE_DB)
+        : butterworthPrototype(order);
+
+    // Pre-warp band edges so the digital cutoffs land exactly where requested
+    const fs2 = 2 * fs;
+    const wl = fs2 * Math.tan((Math.PI * lowCutoff) / fs);
+    const wh = fs2 * Math.tan((Math.PI * highCutoff) / fs);
+
+    const analog = lowpassToBandpass(prototype, Math.sqrt(wl * wh), wh - wl);
+    return bilinear(analog, fs2);
+}
@@ -0,0 +1,130 @@
+/**
+ * lib/frame-sampler.ts
+ * Frame-driven PPG acquisition. Samples once per decoded camera frame via
+ * requestVideoFrameCallback (timer fallback), stamps each sample with the
+ * frame's media time, and reduces pixels in a Web Worker when available.
+ */
+
+import { FrameStats, FRAME_SIZE, centerCrop, createFrameContext, computeFrameStats } from './camera-utils';
+import type { FrameRequest, FrameResult } from './frame-worker';
+
+export interface FrameSample {
+  timestamp: number;   // ms since epoch
+  stats: FrameStats;
+}
+
+export type FrameSource = 'video-frame-callback' | 'timer';
+
+// Frames queued in the worker before new ones are dropped
+const MAX_IN_FLIGHT = 4;
+
+export class FrameSampler {
+  private video: HTMLVideoElement;
+  private onFrame: (sample: FrameSample) => void;
+  private fps: number;
+
+  private running = false;
+  private callbackId: number | null = null;
+  private timerId: ReturnType<typeof setInterval> | null = null;
+  private worker: Worker | null = null;
+  private inFlight = 0;
+  private ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null = null;
+
+  // Epoch ms at media time 0, fixed on the first frame
+  private mediaOrigin: number | null = null;
+  private lastMediaTime = -1;
+
+  dropped = 0;
+
+  constructor(video: HTMLVideoElement, onFrame: (sample: FrameSample) => void, fps: number = 30) {
+    this.video = video;
+    this.onFrame = onFrame;
+    this.fps = fps;
+  }
+
+  get source(): FrameSource {
+    return 'requestVideoFrameCallback' in HTMLVideoElement.prototype ? 'video-frame-callback' : 'timer';
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    this.dropped = 0;
+    this.mediaOrigin = null;
+    this.lastMediaTime = -1;
+    this.worker = createWorker();
+    if (this.worker) {
+      this.worker.onmessage = (e: MessageEvent<FrameResult>) => {
+        this.inFlight--;
+        if (this.running && e.data.stats) this.onFrame({ timestamp: e.data.timestamp, stats: e.data.stats });
+      };
+    }
+
+    if (this.source === 'video-frame-callback') {
+      const onVideoFrame = (_now: number, meta: VideoFrameCallbackMetadata) => {
+        if (!this.running) return;
+        this.handleFrame(meta.mediaTime * 1000);
+        this.callbackId = this.video.requestVideoFrameCallback(onVideoFrame);
+      };
+      this.callbackId = this.video.requestVideoFrameCallback(onVideoFrame);
+    } else {
+      this.timerId = setInterval(() => this.handleFrame(performance.now()), 1000 / this.fps);
+    }
+  }
+
+  stop() {
+    this.running = false;
+    if (this.callbackId !== null) this.video.cancelVideoFrameCallback(this.callbackId);
+    if (this.timerId) clearInterval(this.timerId);
+    this.callbackId = null;
+    this.timerId = null;
+    this.worker?.terminate();
+    this.worker = null;
+    this.inFlight = 0;
+  }
+
+  /** `mediaMs` is monotonic: the frame's media time, or performance.now() on the timer path. */
+  private handleFrame(mediaMs: number) {
+    const vw = this.video.videoWidth, vh = this.video.videoHeight;
+    if (vw === 0 || vh === 0 || mediaMs <= this.lastMediaTime) return;
+    this.lastMediaTime = mediaMs;
+    if (this.mediaOrigin === null) this.mediaOrigin = Date.now() - mediaMs;
+    const timestamp = this.mediaOrigin + mediaMs;
+
+    if (this.worker) {
+      if (this.inFlight >= MAX_IN_FLIGHT) { this.dropped++; return; }
+      this.inFlight++;
+      const [sx, sy, sw, sh] = centerCrop(vw, vh);
+      createImageBitmap(this.video, sx, sy, sw, sh, { resizeWidth: FRAME_SIZE, resizeHeight: FRAME_SIZE })
+        .then(bitmap => {
+          if (!this.worker) { bitmap.close(); return; }
+          const msg: FrameRequest = { bitmap, timestamp };
+          this.worker.postMessage(msg, [bitmap]);
+        })
+        .catch(e => {
+          // Bitmap cropping / resizing unsupported: reduce on this thread instead
+          console.warn("Frame worker unavailable, sampling on main thread", e);
+          this.inFlight--;
+          this.worker?.terminate();
+          this.worker = null;
+        });
+      return;
+    }
+
+    const ctx = this.ctx ?? (this.ctx = createFrameContext());
+    if (!ctx) return;
+    const [sx, sy, sw, sh] = centerCrop(vw, vh);
+    ctx.drawImage(this.video, sx, sy, sw, sh, 0, 0, FRAME_SIZE, FRAME_SIZE);
+    this.onFrame({ timestamp, stats: computeFrameStats(ctx.getImageData(0, 0, FRAME_SIZE, FRAME_SIZE).data, FRAME_SIZE) });
+  }
+}
+
+function createWorker(): Worker | null {
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') return null;
+  try {
+    return new Worker(new URL('./frame-worker.ts', import.meta.url), { type: 'module' });
+  } catch (e) {
+    console.warn("Failed to start frame worker", e);
+    return null;
+  }
+}
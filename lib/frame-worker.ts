@@ -0,0 +1,35 @@
+/**
+ * lib/frame-worker.ts
+ * Web Worker: reduces cropped camera frames (ImageBitmap) to FrameStats off
+ * the main thread, reusing one OffscreenCanvas for every frame.
+ */
+
+import { computeFrameStats, createFrameContext, FRAME_SIZE, FrameStats } from './camera-utils';
+
+export interface FrameRequest {
+  bitmap: ImageBitmap;   // Already cropped / resized to FRAME_SIZE²
+  timestamp: number;     // ms since epoch
+}
+
+export interface FrameResult {
+  timestamp: number;
+  stats: FrameStats | null;
+}
+
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<FrameRequest>) => void) | null;
+  postMessage: (result: FrameResult) => void;
+};
+
+const ctx = createFrameContext();
+
+scope.onmessage = ({ data }) => {
+    const { bitmap, timestamp } = data;
+    let stats: FrameStats | null = null;
+    if (ctx) {
+        ctx.drawImage(bitmap, 0, 0, FRAME_SIZE, FRAME_SIZE);
+        stats = computeFrameStats(ctx.getImageData(0, 0, FRAME_SIZE, FRAME_SIZE).data, FRAME_SIZE);
+    }
+    bitmap.close();
+    scope.postMessage({ timestamp, stats });
+};
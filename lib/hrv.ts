@@ -0,0 +1,256 @@
+/**
+ * lib/hrv.ts
+ * Heart rate variability from interpolated systolic-peak times: ectopic-beat
+ * correction, then time domain (SDNN, RMSSD, pNN50), frequency domain (LF /
+ * HF of a 4 Hz resampled tachogram) and nonlinear measures (Poincaré SD1 /
+ * SD2, sample entropy, DFA α1).
+ */
+
+import { welchPSD } from './signal-processing';
+import { segmentBeats } from './beat-segmentation';
+import { resampleUniform } from './resampling';
+import { mean, median, std } from './stats';
+
+export interface HrvTimeDomain {
+  meanNN: number;      // ms
+  sdnn: number;        // ms
+  rmssd: number;       // ms
+  pnn50: number;       // % of successive differences > 50 ms
+  meanHR: number;      // bpm
+}
+
+export interface HrvFrequencyDomain {
+  lf: number;          // ms², 0.04-0.15 Hz
+  hf: number;          // ms², 0.15-0.40 Hz
+  lfHf: number;
+  lfNu: number;        // LF / (LF + HF), %
+  hfNu: number;
+  freqs: number[];     // Hz, tachogram PSD
+  psd: number[];       // ms² / Hz
+}
+
+export interface HrvPoincare {
+  sd1: number;         // ms, short-term (perpendicular to the identity line)
+  sd2: number;         // ms, long-term (along it)
+  ratio: number;       // SD1 / SD2
+}
+
+export interface HrvReport {
+  beatTimes: number[];             // s, sub-sample systolic peak times
+  rr: number[];                    // ms, between successive beats
+  nn: number[];                    // ms, rr with ectopic intervals replaced
+  ectopic: boolean[];              // Per rr interval
+  ectopicFraction: number;         // Share of intervals interpolated
+  reliable: boolean;               // At most MAX_ECTOPIC_FRACTION interpolated
+  durationSec: number;
+  time: HrvTimeDomain;
+  frequency: HrvFrequencyDomain | null;   // Needs MIN_FREQUENCY_SEC of beats
+  poincare: HrvPoincare | null;    // Needs MIN_NONLINEAR_BEATS
+  sampleEntropy: number | null;
+  dfaAlpha1: number | null;
+  warnings: string[];
+}
+
+export const MIN_HRV_BEATS = 10;
+export const MIN_FREQUENCY_SEC = 60;
+export const MIN_NONLINEAR_BEATS = 32;
+// Beyond this share of interpolated intervals, frequency and nonlinear
+// measures mostly describe the interpolation
+export const MAX_ECTOPIC_FRACTION = 0.2;
+// Short-term HRV recordings are standardised at 5 min; LF needs at least 2
+const RECOMMENDED_FREQUENCY_SEC = 120;
+
+const TACHOGRAM_FS = 4;
+const LF_BAND: [number, number] = [0.04, 0.15];
+const HF_BAND: [number, number] = [0.15, 0.4];
+// Physiological limits: 30-180 BPM
+const MIN_RR_MS = 60000 / 180;
+const MAX_RR_MS = 60000 / 30;
+// An interval this far from its local median is ectopic or a missed / extra beat
+const ECTOPIC_TOLERANCE = 0.2;
+const ECTOPIC_NEIGHBOURS = 5;
+const SAMPEN_M = 2;
+const SAMPEN_R = 0.2;              // x SD of the NN series
+const DFA_SHORT: [number, number] = [4, 16];
+
+// ============================================================================
+// BEAT TIMES
+// ============================================================================
+
+/** Sub-sample position of a local maximum from a parabola through it and its neighbours. */
+export function refinePeak(x: number[], i: number): number {
+    if (i <= 0 || i >= x.length - 1) return i;
+    const a = x[i - 1], b = x[i], c = x[i + 1];
+    const d = a - 2 * b + c;
+    if (d >= 0) return i;
+    return i + Math.min(Math.max(0.5 * (a - c) / d, -0.5), 0.5);
+}
+
+/** Systolic peak times (s) of every segmented beat, refined between samples. */
+export function beatTimes(ppg: number[], fs: number): number[] {
+    return segmentBeats(ppg, fs).beats.map(b => refinePeak(ppg, b.peak) / fs);
+}
+
+// ============================================================================
+// ECTOPIC CORRECTION
+// ============================================================================
+
+/**
+ * Flags intervals outside physiological limits or more than 20% away from
+ * the median of their neighbours, and replaces them by linear interpolation
+ * between the nearest accepted intervals.
+ */
+export function correctEctopic(rr: number[]): { nn: number[]; ectopic: boolean[] } {
+    const ectopic = rr.map((v, i) => {
+        if (v < MIN_RR_MS || v > MAX_RR_MS) return true;
+        const around = rr.slice(Math.max(0, i - ECTOPIC_NEIGHBOURS), i).concat(rr.slice(i + 1, i + 1 + ECTOPIC_NEIGHBOURS));
+        const local = median(around.length ? around : [v]);
+        return Math.abs(v - local) > ECTOPIC_TOLERANCE * local;
+    });
+
+    const nn = [...rr];
+    const good = rr.map((_, i) => i).filter(i => !ectopic[i]);
+    if (good.length === 0) return { nn, ectopic };
+    rr.forEach((_, i) => {
+        if (!ectopic[i]) return;
+        const next = good.find(g => g > i);
+        const prev = [...good].reverse().find(g => g < i);
+        if (prev === undefined) nn[i] = rr[next!];
+        else if (next === undefined) nn[i] = rr[prev];
+        else nn[i] = rr[prev] + (rr[next] - rr[prev]) * (i - prev) / (next - prev);
+    });
+    return { nn, ectopic };
+}
+
+// ============================================================================
+// MEASURES
+// ============================================================================
+
+export function timeDomain(nn: number[]): HrvTimeDomain {
+    const diffs = nn.slice(1).map((v, i) => v - nn[i]);
+    const meanNN = mean(nn);
+    return {
+        meanNN,
+        sdnn: std(nn),
+        rmssd: Math.sqrt(mean(diffs.map(d => d * d))),
+        pnn50: diffs.length ? 100 * diffs.filter(d => Math.abs(d) > 50).length / diffs.length : 0,
+        meanHR: meanNN > 0 ? 60000 / meanNN : 0
+    };
+}
+
+/** Welch PSD of the NN tachogram resampled at 4 Hz; band powers integrate the PSD. */
+export function frequencyDomain(nn: number[], times: number[]): HrvFrequencyDomain {
+    const tachogram = resampleUniform(nn.map((value, i) => ({ timestamp: times[i] * 1000, value })), TACHOGRAM_FS).values;
+    const { freqs, psd } = welchPSD(tachogram, TACHOGRAM_FS);
+    const df = freqs.length > 1 ? freqs[1] - freqs[0] : 0;
+    const band = ([lo, hi]: [number, number]) => freqs.reduce((acc, f, k) => f >= lo && f < hi ? acc + psd[k] * df : acc, 0);
+    const lf = band(LF_BAND), hf = band(HF_BAND);
+    return {
+        lf, hf,
+        lfHf: hf > 0 ? lf / hf : 0,
+        lfNu: lf + hf > 0 ? 100 * lf / (lf + hf) : 0,
+        hfNu: lf + hf > 0 ? 100 * hf / (lf + hf) : 0,
+        freqs, psd
+    };
+}
+
+export function poincare(nn: number[]): HrvPoincare {
+    const diffs = nn.slice(1).map((v, i) => v - nn[i]);
+    const sd1 = Math.sqrt(0.5) * std(diffs);
+    const sd2 = Math.sqrt(Math.max(0, 2 * std(nn) ** 2 - 0.5 * std(diffs) ** 2));
+    return { sd1, sd2, ratio: sd2 > 0 ? sd1 / sd2 : 0 };
+}
+
+/** SampEn(m, r): -ln of the chance that sequences matching for m points also match for m + 1. */
+export function sampleEntropy(x: number[], m: number = SAMPEN_M, r: number = SAMPEN_R * std(x)): number | null {
+    const n = x.length - m;
+    if (n < 2 || !(r > 0)) return null;
+    let matchM = 0, matchM1 = 0;
+    for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+            let k = 0;
+            while (k < m && Math.abs(x[i + k] - x[j + k]) <= r) k++;
+            if (k < m) continue;
+            matchM++;
+            if (Math.abs(x[i + m] - x[j + m]) <= r) matchM1++;
+        }
+    }
+    return matchM > 0 && matchM1 > 0 ? -Math.log(matchM1 / matchM) : null;
+}
+
+/** Detrended fluctuation analysis scaling exponent over box sizes [min, max] beats. */
+export function dfaAlpha(x: number[], [minBox, maxBox]: [number, number] = DFA_SHORT): number | null {
+    if (x.length < 2 * maxBox) return null;
+    const m = mean(x);
+    const profile: number[] = [];
+    x.reduce((acc, v) => { const next = acc + v - m; profile.push(next); return next; }, 0);
+
+    const logN: number[] = [], logF: number[] = [];
+    for (let size = minBox; size <= maxBox; size++) {
+        const boxes = Math.floor(profile.length / size);
+        let sq = 0;
+        for (let b = 0; b < boxes; b++) {
+            const seg = profile.slice(b * size, (b + 1) * size);
+            const { slope, intercept } = lineFit(seg.map((_, i) => i), seg);
+            seg.forEach((v, i) => { sq += (v - (slope * i + intercept)) ** 2; });
+        }
+        const f = Math.sqrt(sq / (boxes * size));
+        if (f > 0) { logN.push(Math.log(size)); logF.push(Math.log(f)); }
+    }
+    return logN.length >= 2 ? lineFit(logN, logF).slope : null;
+}
+
+function lineFit(x: number[], y: number[]): { slope: number; intercept: number } {
+    const mx = mean(x), my = mean(y);
+    let sxy = 0, sxx = 0;
+    for (let i = 0; i < x.length; i++) { sxy += (x[i] - mx) * (y[i] - my); sxx += (x[i] - mx) ** 2; }
+    const slope = sxx > 0 ? sxy / sxx : 0;
+    return { slope, intercept: my - slope * mx };
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+/** Full report from beat times (s). Throws with fewer than MIN_HRV_BEATS beats. */
+export function hrvFromBeatTimes(times: number[]): HrvReport {
+    if (times.length < MIN_HRV_BEATS) throw new Error(`Not enough beats for HRV (${times.length}, need ${MIN_HRV_BEATS}).`);
+    const rr = times.slice(1).map((t, i) => (t - times[i]) * 1000);
+    const { nn, ectopic } = correctEctopic(rr);
+    const durationSec = times[times.length - 1] - times[0];
+    const warnings: string[] = [];
+
+    const corrected = ectopic.filter(Boolean).length;
+    const reliable = corrected <= MAX_ECTOPIC_FRACTION * rr.length;
+    if (!reliable) {
+        warnings.push(`${corrected} of ${rr.length} intervals corrected; beat detection is unreliable.`);
+    }
+    let frequency: HrvFrequencyDomain | null = null;
+    if (durationSec >= MIN_FREQUENCY_SEC) {
+        frequency = frequencyDomain(nn, times.slice(1));
+        if (durationSec < RECOMMENDED_FREQUENCY_SEC) warnings.push(`LF power is unreliable under ${RECOMMENDED_FREQUENCY_SEC / 60} min.`);
+    } else {
+        warnings.push(`Frequency domain needs at least ${MIN_FREQUENCY_SEC} s of beats.`);
+    }
+    const nonlinear = nn.length >= MIN_NONLINEAR_BEATS;
+    if (!nonlinear) warnings.push(`Poincaré, sample entropy and DFA need at least ${MIN_NONLINEAR_BEATS} intervals.`);
+
+    return {
+        beatTimes: times,
+        rr, nn, ectopic,
+        ectopicFraction: rr.length ? corrected / rr.length : 0,
+        reliable,
+        durationSec,
+        time: timeDomain(nn),
+        frequency,
+        poincare: nonlinear ? poincare(nn) : null,
+        sampleEntropy: nonlinear ? sampleEntropy(nn) : null,
+        dfaAlpha1: nonlinear ? dfaAlpha(nn) : null,
+        warnings
+    };
+}
+
+/** HRV of a preprocessed PPG (preprocessPPG output). */
+export function analyzeHrv(ppg: number[], fs: number): HrvReport {
+    return hrvFromBeatTimes(beatTimes(ppg, fs));
+}
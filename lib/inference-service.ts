@@ -0,0 +1,238 @@
+/**
+ * lib/inference-service.ts
+ * App-wide inference: each model is loaded once (in a Web Worker when
+ * available, on the main thread otherwise) and shared by every tab. Load
+ * status is observable, and batches of sessions run as one tensor.
+ */
+
+import { useSyncExternalStore } from 'react';
+import { buildModelInput, checkModelInput, loadModel, modelSource, runModel, ModelManifest, ModelOutput } from './model-registry';
+import type { Demographics, FeatureIssue } from './feature-schema';
+import type { InferenceCommand, InferenceRequest, InferenceResponse } from './inference-worker';
+
+export type ModelLoadState = 'loading' | 'ready' | 'error';
+export type InferenceBackend = 'worker' | 'main-thread';
+
+export interface ModelStatus {
+  id: string;
+  name: string;
+  version: string;
+  state: ModelLoadState;
+  backend?: InferenceBackend;   // Once ready
+  error?: string;
+}
+
+export interface BatchItem {
+  id: string;                   // Caller's key, e.g. a session id
+  features: number[];
+  demographics: Demographics;
+}
+
+export interface BatchResult {
+  id: string;
+  output?: ModelOutput;
+  issues: FeatureIssue[];       // Errors here mean the item was not run
+  error?: string;
+}
+
+/** Runs manifest-ordered input rows on a loaded model. */
+type Runner = (rows: Float32Array[]) => Promise<ModelOutput[]>;
+
+// Rows per tensor in predictBatch (progress is reported between batches)
+const BATCH_SIZE = 64;
+
+/** Identifies a loaded model; a bundled and an imported model may share an id. */
+export const modelKey = (m: ModelManifest) => `${m.origin ?? 'bundled'}:${m.id}@${m.version}`;
+
+export class InferenceService {
+  private worker: Worker | null | undefined = undefined;   // undefined: not started yet
+  private nextRequestId = 1;
+  private pending = new Map<number, { resolve: (outputs: ModelOutput[] | undefined) => void; reject: (e: Error) => void }>();
+  private runners = new Map<string, Promise<Runner>>();
+  private mainRunners = new Map<string, Runner>();           // Runners that fell back to this thread
+  private statuses: Record<string, ModelStatus> = {};
+  private listeners = new Set<() => void>();
+
+  /** Loads the model if this is the first request for it. */
+  async load(manifest: ModelManifest): Promise<void> {
+    await this.runner(manifest);
+  }
+
+  /** Throws on inputs the model cannot take (non-finite or missing). */
+  async predict(manifest: ModelManifest, features: number[], demographics: Demographics): Promise<ModelOutput> {
+    const errors = checkModelInput(manifest, features, demographics).filter(i => i.severity === 'error');
+    if (errors.length) throw new Error(`Invalid model input (${errors.map(e => e.message).join(', ')}).`);
+    const run = await this.runner(manifest);
+    const [out] = await run([buildModelInput(manifest, features, demographics)]);
+    return out;
+  }
+
+  /** Items with input errors are reported and skipped; the rest run in batches. */
+  async predictBatch(manifest: ModelManifest, items: BatchItem[], onProgress?: (done: number, total: number) => void): Promise<BatchResult[]> {
+    const results: BatchResult[] = items.map(item => ({ id: item.id, issues: checkModelInput(manifest, item.features, item.demographics) }));
+    const runnable = items.map((item, i) => ({ item, result: results[i] })).filter(({ result }) => !result.issues.some(x => x.severity === 'error'));
+    results.forEach(r => { if (r.issues.some(x => x.severity === 'error')) r.error = 'Invalid model input.'; });
+
+    const run = await this.runner(manifest);
+    let done = items.length - runnable.length;
+    onProgress?.(done, items.length);
+    for (let i = 0; i < runnable.length; i += BATCH_SIZE) {
+      const batch = runnable.slice(i, i + BATCH_SIZE);
+      try {
+        const outputs = await run(batch.map(({ item }) => buildModelInput(manifest, item.features, item.demographics)));
+        batch.forEach(({ result }, j) => { result.output = outputs[j]; });
+      } catch (e) {
+        batch.forEach(({ result }) => { result.error = e instanceof Error ? e.message : String(e); });
+      }
+      done += batch.length;
+      onProgress?.(done, items.length);
+    }
+    return results;
+  }
+
+  /** Frees a model's session; the next request loads it again. */
+  async release(manifest: ModelManifest) {
+    const key = modelKey(manifest);
+    const runner = this.runners.get(key);
+    this.runners.delete(key);
+    this.mainRunners.delete(key);
+    this.clearStatuses([key]);
+    if (!runner || !this.worker) return;
+    await runner.catch(() => undefined);
+    await this.send({ type: 'release', key }).catch(() => undefined);
+  }
+
+  getStatus(manifest: ModelManifest): ModelStatus | undefined {
+    return this.statuses[modelKey(manifest)];
+  }
+
+  /** Keyed by modelKey; replaced (not mutated) on every change. */
+  getStatuses(): Record<string, ModelStatus> {
+    return this.statuses;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private runner(manifest: ModelManifest): Promise<Runner> {
+    const key = modelKey(manifest);
+    const loaded = this.runners.get(key);
+    if (loaded) return loaded;
+
+    const { id, name, version } = manifest;
+    this.setStatus(key, { id, name, version, state: 'loading' });
+    const runner = this.open(manifest, key);
+    this.runners.set(key, runner);
+    // A runner released or dropped while loading no longer reports
+    runner.then(
+      r => {
+        if (this.runners.get(key) !== runner) return;
+        this.setStatus(key, { id, name, version, state: 'ready', backend: r === this.mainRunners.get(key) ? 'main-thread' : 'worker' });
+      },
+      (e: unknown) => {
+        if (this.runners.get(key) !== runner) return;
+        this.runners.delete(key);
+        this.setStatus(key, { id, name, version, state: 'error', error: e instanceof Error ? e.message : String(e) });
+      }
+    );
+    return runner;
+  }
+
+  private async open(manifest: ModelManifest, key: string): Promise<Runner> {
+    const worker = this.getWorker();
+    if (worker) {
+      const source = await modelSource(manifest);
+      try {
+        await this.send({ type: 'load', key, manifest, source });
+        return rows => this.send({ type: 'run', key, rows }).then(outputs => outputs ?? []);
+      } catch (e) {
+        // e.g. WebAssembly unavailable in workers; a bad model fails again below
+        console.warn("Inference worker could not load model, using main thread", e);
+      }
+    }
+    const model = await loadModel(manifest);
+    const runner: Runner = rows => runModel(model, rows);
+    this.mainRunners.set(key, runner);
+    return runner;
+  }
+
+  private send(command: InferenceCommand): Promise<ModelOutput[] | undefined> {
+    const worker = this.worker;
+    if (!worker) return Promise.reject(new Error("Inference worker is not running."));
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
+      const req: InferenceRequest = { ...command, requestId };
+      worker.postMessage(req);
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker !== undefined) return this.worker;
+    this.worker = createWorker();
+    if (this.worker) {
+      this.worker.onmessage = (e: MessageEvent<InferenceResponse>) => {
+        const res = e.data;
+        const p = this.pending.get(res.requestId);
+        if (!p) return;
+        this.pending.delete(res.requestId);
+        if (res.ok) p.resolve(res.outputs);
+        else p.reject(new Error(res.error));
+      };
+      // The worker died: fail what is in flight and reload models on this thread
+      this.worker.onerror = (e) => {
+        console.error("Inference worker error", e);
+        this.worker?.terminate();
+        this.worker = null;
+        this.pending.forEach(p => p.reject(new Error("Inference worker stopped.")));
+        this.pending.clear();
+        const dropped = [...this.runners.keys()].filter(key => !this.mainRunners.has(key));
+        dropped.forEach(key => this.runners.delete(key));
+        this.clearStatuses(dropped);
+      };
+    }
+    return this.worker;
+  }
+
+  private setStatus(key: string, status: ModelStatus) {
+    this.statuses = { ...this.statuses, [key]: status };
+    this.emit();
+  }
+
+  private clearStatuses(keys: string[]) {
+    if (!keys.some(key => key in this.statuses)) return;
+    this.statuses = Object.fromEntries(Object.entries(this.statuses).filter(([key]) => !keys.includes(key)));
+    this.emit();
+  }
+
+  private emit() {
+    this.listeners.forEach(l => l());
+  }
+}
+
+function createWorker(): Worker | null {
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./inference-worker.ts', import.meta.url), { type: 'module' });
+  } catch (e) {
+    console.warn("Failed to start inference worker", e);
+    return null;
+  }
+}
+
+let instance: InferenceService | null = null;
+
+export function getInferenceService(): InferenceService {
+    if (!instance) instance = new InferenceService();
+    return instance;
+}
+
+const NO_STATUSES: Record<string, ModelStatus> = {};
+
+/** Load status of every model the service has been asked for, re-rendering on change. */
+export function useModelStatuses(): Record<string, ModelStatus> {
+    const service = getInferenceService();
+    return useSyncExternalStore(l => service.subscribe(l), () => service.getStatuses(), () => NO_STATUSES);
+}
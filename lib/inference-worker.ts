@@ -0,0 +1,53 @@
+/**
+ * lib/inference-worker.ts
+ * Web Worker: holds one ONNX session per loaded model and runs batches of
+ * manifest-ordered input rows off the main thread.
+ */
+
+import * as ort from 'onnxruntime-web';
+import { createModel, runModel, LoadedModel, ModelManifest, ModelOutput } from './model-registry';
+
+export type InferenceCommand =
+  | { type: 'load'; key: string; manifest: ModelManifest; source: string | Uint8Array }
+  | { type: 'run'; key: string; rows: Float32Array[] }
+  | { type: 'release'; key: string };
+
+export type InferenceRequest = InferenceCommand & { requestId: number };
+
+export type InferenceResponse =
+  | { requestId: number; ok: true; outputs?: ModelOutput[] }
+  | { requestId: number; ok: false; error: string };
+
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<InferenceRequest>) => void) | null;
+  postMessage: (response: InferenceResponse) => void;
+};
+
+ort.env.wasm.wasmPaths = "/";
+ort.env.wasm.numThreads = 1;
+
+const models = new Map<string, LoadedModel>();
+
+async function handle(req: InferenceRequest): Promise<ModelOutput[] | undefined> {
+    switch (req.type) {
+        case 'load':
+            if (!models.has(req.key)) models.set(req.key, await createModel(req.manifest, req.source));
+            return undefined;
+        case 'run': {
+            const model = models.get(req.key);
+            if (!model) throw new Error(`Model ${req.key} is not loaded.`);
+            return runModel(model, req.rows);
+        }
+        case 'release':
+            await models.get(req.key)?.session.release();
+            models.delete(req.key);
+            return undefined;
+    }
+}
+
+scope.onmessage = ({ data }) => {
+    handle(data).then(
+        outputs => scope.postMessage({ requestId: data.requestId, ok: true, outputs }),
+        (e: unknown) => scope.postMessage({ requestId: data.requestId, ok: false, error: e instanceof Error ? e.message : String(e) })
+    );
+};
@@ -0,0 +1,273 @@
+/**
+ * lib/model-registry.ts
+ * ONNX models described by manifests (input feature order, normalization,
+ * output names / units, version). Bundled manifests are listed in
+ * /models/index.json; user-imported models (manifest + .onnx bytes) live in
+ * the IndexedDB `models` store. Sessions are validated against their manifest.
+ */
+
+import * as ort from 'onnxruntime-web';
+import { openDatabase, request, done, STORES } from './database';
+import { Demographics, FeatureIssue, FeatureNormalization, isInputName, serializeFeatures, toFeatureVector, validateFeatures } from './feature-schema';
+import type { VitalValues } from './calibration';
+
+if (typeof window !== 'undefined') {
+    ort.env.wasm.wasmPaths = "/";
+    ort.env.wasm.numThreads = 1;
+}
+
+export interface ModelOutputSpec {
+  name: string;            // sbp / dbp / glucose, or any extra output
+  unit: string;
+}
+
+export type ModelOrigin = 'bundled' | 'imported';
+
+export interface ModelManifest {
+  id: string;
+  name: string;
+  version: string;
+  description?: string;
+  modelUrl?: string;       // Bundled models only
+  origin?: ModelOrigin;    // Set by the registry
+  input: {
+    name: string;
+    features: string[];    // FeatureVector names (FEATURE_NAMES and age / height / weight)
+    normalization?: FeatureNormalization;  // z-score applied before inference
+  };
+  output: {
+    name: string;
+    values: ModelOutputSpec[];             // Order along the last output dimension
+  };
+}
+
+/** Stamped on a RecordingSession: which model produced its predictions. */
+export interface ModelStamp {
+  id: string;
+  name: string;
+  version: string;
+}
+
+/** Named model outputs, in the manifest's units. */
+export type ModelOutput = VitalValues & Record<string, number>;
+
+export interface LoadedModel {
+  manifest: ModelManifest;
+  session: ort.InferenceSession;
+}
+
+/** Record in the `models` store. */
+interface StoredModel {
+  id: string;
+  manifest: ModelManifest;
+  data: ArrayBuffer;
+  importedAt: number;
+}
+
+export const MODEL_INDEX_URL = '/models/index.json';
+export const DEFAULT_MODEL_ID = 'ppg-bp-glucose';
+
+const REQUIRED_OUTPUTS = ['sbp', 'dbp', 'glucose'];
+
+// ============================================================================
+// MANIFESTS
+// ============================================================================
+
+export const modelStamp = ({ id, name, version }: ModelManifest): ModelStamp => ({ id, name, version });
+
+/** Throws on a manifest the app cannot feed or read. */
+export function validateManifest(m: ModelManifest): ModelManifest {
+    if (!m?.id || !m.name || !m.version) throw new Error("Manifest needs id, name and version.");
+    if (!m.input?.name || !Array.isArray(m.input.features) || m.input.features.length === 0) throw new Error(`${m.id}: manifest has no input features.`);
+    const unknown = m.input.features.filter(f => !isInputName(f));
+    if (unknown.length) throw new Error(`${m.id}: unknown input features (${unknown.join(', ')}).`);
+
+    const norm = m.input.normalization;
+    if (norm && (norm.mean?.length !== m.input.features.length || norm.std?.length !== m.input.features.length)) {
+        throw new Error(`${m.id}: normalization must have one mean / std per input feature.`);
+    }
+    if (norm?.std.some(s => !(s > 0))) throw new Error(`${m.id}: normalization std must be positive.`);
+
+    if (!m.output?.name || !Array.isArray(m.output.values)) throw new Error(`${m.id}: manifest has no outputs.`);
+    const missing = REQUIRED_OUTPUTS.filter(o => !m.output.values.some(v => v.name === o));
+    if (missing.length) throw new Error(`${m.id}: manifest lacks outputs ${missing.join(', ')}.`);
+    return m;
+}
+
+/** Checks the session's declared input / output names and widths against the manifest. */
+export function validateSession(manifest: ModelManifest, session: ort.InferenceSession): void {
+    const input = session.inputMetadata.find(i => i.name === manifest.input.name);
+    if (!input) throw new Error(`Model has no input "${manifest.input.name}" (found ${session.inputNames.join(', ')}).`);
+    const output = session.outputMetadata.find(o => o.name === manifest.output.name);
+    if (!output) throw new Error(`Model has no output "${manifest.output.name}" (found ${session.outputNames.join(', ')}).`);
+
+    const width = (meta: ort.InferenceSession.ValueMetadata) => {
+        if (!meta.isTensor || meta.shape.length === 0) return null;
+        const last = meta.shape[meta.shape.length - 1];
+        // Dynamic dimensions are symbolic or reported as -1 / 2^32 - 1
+        return typeof last === 'number' && last > 0 && last < 2 ** 31 ? last : null;
+    };
+    const inWidth = width(input);
+    if (inWidth !== null && inWidth !== manifest.input.features.length) {
+        throw new Error(`Model expects ${inWidth} inputs, manifest lists ${manifest.input.features.length}.`);
+    }
+    const outWidth = width(output);
+    if (outWidth !== null && outWidth !== manifest.output.values.length) {
+        throw new Error(`Model returns ${outWidth} outputs, manifest lists ${manifest.output.values.length}.`);
+    }
+}
+
+export class ModelRegistry {
+  /** Bundled manifests, then imported ones; invalid bundled manifests are skipped with a warning. */
+  async getModels(): Promise<ModelManifest[]> {
+    return [...await this.getBundledModels(), ...await this.getImportedModels()];
+  }
+
+  async getBundledModels(): Promise<ModelManifest[]> {
+    const index = await fetchJson<{ models: string[] }>(MODEL_INDEX_URL);
+    const manifests: ModelManifest[] = [];
+    for (const url of index.models ?? []) {
+      try {
+        const m = validateManifest(await fetchJson<ModelManifest>(url));
+        if (!m.modelUrl) throw new Error(`${m.id}: bundled manifest needs a modelUrl.`);
+        manifests.push({ ...m, origin: 'bundled' });
+      } catch (e) {
+        console.warn(`Skipping model manifest ${url}`, e);
+      }
+    }
+    return manifests;
+  }
+
+  async getImportedModels(): Promise<ModelManifest[]> {
+    if (typeof window === 'undefined') return [];
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.models, 'readonly');
+    const records = await request(tx.objectStore(STORES.models).getAll() as IDBRequest<StoredModel[]>);
+    return records.sort((a, b) => a.importedAt - b.importedAt).map(r => ({ ...r.manifest, origin: 'imported' }));
+  }
+
+  async getModelData(id: string): Promise<ArrayBuffer> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.models, 'readonly');
+    const record = await request(tx.objectStore(STORES.models).get(id) as IDBRequest<StoredModel | undefined>);
+    if (!record) throw new Error(`Model ${id} is not stored on this device.`);
+    return record.data;
+  }
+
+  /**
+   * Validates an .onnx file against its manifest JSON by opening a session,
+   * then stores both. Re-importing an id replaces the earlier version.
+   */
+  async importModel(modelFile: File, manifestFile: File): Promise<ModelManifest> {
+    let parsed: ModelManifest;
+    try {
+      parsed = JSON.parse(await manifestFile.text());
+    } catch {
+      throw new Error("Manifest is not valid JSON.");
+    }
+    const { modelUrl: _url, origin: _origin, ...manifest } = validateManifest(parsed);
+    if ((await this.getBundledModels()).some(m => m.id === manifest.id)) {
+      throw new Error(`Model id "${manifest.id}" is used by a bundled model.`);
+    }
+
+    const data = await modelFile.arrayBuffer();
+    const { session } = await createModel(manifest, new Uint8Array(data));
+    await session.release();
+
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.models, 'readwrite');
+    const record: StoredModel = { id: manifest.id, manifest, data, importedAt: Date.now() };
+    tx.objectStore(STORES.models).put(record);
+    await done(tx);
+    return { ...manifest, origin: 'imported' };
+  }
+
+  async deleteModel(id: string) {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.models, 'readwrite');
+    tx.objectStore(STORES.models).delete(id);
+    await done(tx);
+  }
+
+  /** The requested model, falling back to the default and then the first available. */
+  async getModel(id: string | undefined): Promise<ModelManifest> {
+    const models = await this.getModels();
+    const model = models.find(m => m.id === id) ?? models.find(m => m.id === DEFAULT_MODEL_ID) ?? models[0];
+    if (!model) throw new Error("No models available.");
+    return model;
+  }
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`Failed to fetch ${url} (${res.status}).`);
+    return res.json() as Promise<T>;
+}
+
+// ============================================================================
+// INFERENCE
+// ============================================================================
+
+/** Where a model's bytes come from: the bundled URL, or IndexedDB for imported models. */
+export async function modelSource(manifest: ModelManifest): Promise<string | Uint8Array> {
+    return manifest.origin === 'imported' || !manifest.modelUrl
+        ? new Uint8Array(await new ModelRegistry().getModelData(manifest.id))
+        : manifest.modelUrl;
+}
+
+/** Opens and validates a session; usable off the main thread (no IndexedDB access). */
+export async function createModel(manifest: ModelManifest, source: string | Uint8Array): Promise<LoadedModel> {
+    const options: ort.InferenceSession.SessionOptions = { executionProviders: ['wasm'] };
+    // Narrowed per branch: the URL and bytes overloads do not accept the union
+    const session = typeof source === 'string'
+        ? await ort.InferenceSession.create(source, options)
+        : await ort.InferenceSession.create(source, options);
+    try {
+        validateSession(manifest, session);
+    } catch (e) {
+        await session.release();
+        throw e;
+    }
+    return { manifest, session };
+}
+
+export async function loadModel(manifest: ModelManifest): Promise<LoadedModel> {
+    return createModel(manifest, await modelSource(manifest));
+}
+
+/** Input row in manifest order, z-scored when the manifest carries normalization. */
+export function buildModelInput(manifest: ModelManifest, features: number[], demographics: Demographics): Float32Array {
+    return serializeFeatures(toFeatureVector(features, demographics), manifest.input.features, manifest.input.normalization);
+}
+
+/** Problems with the inputs this model reads; errors block inference, warnings are out-of-range values. */
+export function checkModelInput(manifest: ModelManifest, features: number[], demographics: Demographics): FeatureIssue[] {
+    return validateFeatures(toFeatureVector(features, demographics), manifest.input.features);
+}
+
+/** Maps one output row onto the manifest's named values. */
+export function readModelOutput(manifest: ModelManifest, data: ArrayLike<number>): ModelOutput {
+    const out: Record<string, number> = {};
+    manifest.output.values.forEach((o, i) => { out[o.name] = Number(data[i]); });
+    return out as ModelOutput;
+}
+
+/** Runs already-built input rows as one [rows, width] batch. */
+export async function runModel(model: LoadedModel, rows: Float32Array[]): Promise<ModelOutput[]> {
+    if (rows.length === 0) return [];
+    const { manifest, session } = model;
+    const width = rows[0].length;
+    const input = new Float32Array(rows.length * width);
+    rows.forEach((row, i) => input.set(row, i * width));
+    const out = await session.run({ [manifest.input.name]: new ort.Tensor('float32', input, [rows.length, width]) });
+    const data = out[manifest.output.name].data as Float32Array;
+    const stride = data.length / rows.length;
+    return rows.map((_, i) => readModelOutput(manifest, data.subarray(i * stride, (i + 1) * stride)));
+}
+
+export async function predict(model: LoadedModel, features: number[], demographics: Demographics): Promise<ModelOutput> {
+    const errors = checkModelInput(model.manifest, features, demographics).filter(i => i.severity === 'error');
+    if (errors.length) throw new Error(`Invalid model input (${errors.map(e => e.message).join(', ')}).`);
+    const [out] = await runModel(model, [buildModelInput(model.manifest, features, demographics)]);
+    return out;
+}
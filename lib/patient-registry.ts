@@ -0,0 +1,111 @@
+/**
+ * lib/patient-registry.ts
+ * Patient profiles stored on-device (IndexedDB `patients` store).
+ */
+
+import { openDatabase, request, done, STORES } from './database';
+
+export type PatientSex = 'female' | 'male' | 'other' | 'unspecified';
+
+export interface Patient {
+  id: string;              // P0001, P0002...
+  name: string;
+  sex: PatientSex;
+  dateOfBirth?: string;    // YYYY-MM-DD
+  height?: number;         // cm
+  weight?: number;         // kg
+  medications: string[];
+  notes: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type PatientDraft = Omit<Patient, 'id' | 'createdAt' | 'updatedAt'> & { id?: string };
+
+export const emptyPatientDraft = (): PatientDraft => ({
+  name: '',
+  sex: 'unspecified',
+  dateOfBirth: '',
+  height: 170,
+  weight: 70,
+  medications: [],
+  notes: ''
+});
+
+/** Whole years between a YYYY-MM-DD birth date and `at`. */
+export function ageFromDateOfBirth(dateOfBirth: string | undefined, at: Date = new Date()): number | undefined {
+  if (!dateOfBirth) return undefined;
+  const dob = new Date(dateOfBirth);
+  if (isNaN(dob.getTime())) return undefined;
+  let age = at.getFullYear() - dob.getFullYear();
+  const m = at.getMonth() - dob.getMonth();
+  if (m < 0 || (m === 0 && at.getDate() < dob.getDate())) age--;
+  return age;
+}
+
+export class PatientRegistry {
+  async getPatients(): Promise<Patient[]> {
+    if (typeof window === 'undefined') return [];
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.patients, 'readonly');
+    const patients = await request(tx.objectStore(STORES.patients).getAll() as IDBRequest<Patient[]>);
+    return patients.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getPatient(id: string): Promise<Patient | null> {
+    if (typeof window === 'undefined') return null;
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.patients, 'readonly');
+    return (await request(tx.objectStore(STORES.patients).get(id) as IDBRequest<Patient | undefined>)) ?? null;
+  }
+
+  /** Creates (no id) or updates a patient and returns the stored record. */
+  async savePatient(draft: PatientDraft): Promise<Patient> {
+    if (!draft.name.trim()) throw new Error("Patient name is required.");
+    const now = Date.now();
+    const existing = draft.id ? await this.getPatient(draft.id) : null;
+    const patient: Patient = {
+      ...draft,
+      name: draft.name.trim(),
+      medications: draft.medications.map(m => m.trim()).filter(Boolean),
+      id: existing?.id ?? await this.generateNextId(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.patients, 'readwrite');
+    tx.objectStore(STORES.patients).put(patient);
+    await done(tx);
+    return patient;
+  }
+
+  /** Removes the profile and its calibration; recordings keep their patientId / name. */
+  async deletePatient(id: string) {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.patients, STORES.calibrations], 'readwrite');
+    tx.objectStore(STORES.patients).delete(id);
+    const req = tx.objectStore(STORES.calibrations).index('patientId').openKeyCursor(id);
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      tx.objectStore(STORES.calibrations).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    await done(tx);
+  }
+
+  async clearAll() {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.patients, 'readwrite');
+    tx.objectStore(STORES.patients).clear();
+    await done(tx);
+  }
+
+  async generateNextId(): Promise<string> {
+    const ids = (await this.getPatients())
+        .map(p => parseInt(p.id.replace(/^P/, ''), 10))
+        .filter(n => !isNaN(n));
+    const next = ids.length ? Math.max(...ids) + 1 : 1;
+    return `P${next.toString().padStart(4, '0')}`;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * lib/recording-protocol.ts
+ * Recording protocols: when a recording is complete. Tracks clean signal
+ * time and good beats from the live vitals and decides when to auto-stop.
+ */
+
+import type { LiveVitals } from './stream-processing';
+
+export type ProtocolKind = 'manual' | 'fixed-duration' | 'clean-duration' | 'good-beats';
+
+export interface RecordingProtocol {
+  id: string;
+  kind: ProtocolKind;
+  label: string;
+  target: number;            // s (durations) or beats
+  maxDurationSec?: number;   // Give up after this long without reaching the target
+}
+
+/** Outcome stored on the RecordingSession. */
+export interface ProtocolResult {
+  id: string;
+  kind: ProtocolKind;
+  label: string;
+  target: number;
+  durationSec: number;
+  cleanSec: number;
+  goodBeats: number;
+  completed: boolean;        // Target reached (false: stopped manually or timed out)
+}
+
+export interface ProtocolProgress {
+  elapsedSec: number;
+  cleanSec: number;
+  goodBeats: number;
+  fraction: number;          // 0-1 towards the target
+  done: boolean;             // Target reached
+  timedOut: boolean;         // maxDurationSec passed first
+}
+
+export const MIN_RECORDING_SEC = 10;
+
+export const RECORDING_PROTOCOLS: RecordingProtocol[] = [
+  { id: 'manual', kind: 'manual', label: 'Manual stop', target: 0 },
+  { id: 'fixed-30', kind: 'fixed-duration', label: 'Fixed 30 s', target: 30 },
+  { id: 'clean-60', kind: 'clean-duration', label: '60 s of clean signal', target: 60, maxDurationSec: 180 },
+  { id: 'beats-40', kind: 'good-beats', label: '40 good beats', target: 40, maxDurationSec: 120 },
+];
+
+export const DEFAULT_PROTOCOL_ID = 'manual';
+
+export function getProtocol(id: string | undefined): RecordingProtocol {
+    return RECORDING_PROTOCOLS.find(p => p.id === id) ?? RECORDING_PROTOCOLS[0];
+}
+
+/** Clean: a rolling quality score is available, not Poor, without motion, and HR is locked. */
+export function isCleanSignal(vitals: LiveVitals): boolean {
+    const q = vitals.quality;
+    return !!q && q.label !== 'Poor' && q.motionFraction === 0 && vitals.heartRate !== null;
+}
+
+// ============================================================================
+// TRACKER
+// ============================================================================
+
+/**
+ * Fed once per live-vitals update. Time and beats between two updates count
+ * as clean when the later update reports a clean signal.
+ */
+export class ProtocolTracker {
+  readonly protocol: RecordingProtocol;
+  private startMs: number | null = null;
+  private lastMs: number | null = null;
+  private lastBeats = 0;
+  private cleanMs = 0;
+  private goodBeats = 0;
+  private progress: ProtocolProgress = { elapsedSec: 0, cleanSec: 0, goodBeats: 0, fraction: 0, done: false, timedOut: false };
+
+  constructor(protocol: RecordingProtocol) {
+    this.protocol = protocol;
+  }
+
+  get current(): ProtocolProgress {
+    return this.progress;
+  }
+
+  /** `now` is the latest sample timestamp (ms). */
+  update(now: number, vitals: LiveVitals): ProtocolProgress {
+    if (this.startMs === null) this.startMs = now;
+    if (this.lastMs !== null && isCleanSignal(vitals)) {
+      this.cleanMs += Math.max(0, now - this.lastMs);
+      this.goodBeats += Math.max(0, vitals.beats - this.lastBeats);
+    }
+    this.lastMs = now;
+    this.lastBeats = vitals.beats;
+
+    const elapsedSec = (now - this.startMs) / 1000;
+    const cleanSec = this.cleanMs / 1000;
+    const { kind, target, maxDurationSec } = this.protocol;
+    const achieved = kind === 'fixed-duration' ? elapsedSec : kind === 'clean-duration' ? cleanSec : kind === 'good-beats' ? this.goodBeats : 0;
+    const fraction = kind === 'manual' ? 0 : Math.min(achieved / target, 1);
+    const done = kind !== 'manual' && fraction >= 1 && elapsedSec >= MIN_RECORDING_SEC;
+    const timedOut = !done && maxDurationSec !== undefined && elapsedSec >= maxDurationSec;
+
+    this.progress = { elapsedSec, cleanSec, goodBeats: this.goodBeats, fraction, done, timedOut };
+    return this.progress;
+  }
+
+  result(): ProtocolResult {
+    const { id, kind, label, target } = this.protocol;
+    const { elapsedSec, cleanSec, goodBeats, done } = this.progress;
+    return { id, kind, label, target, durationSec: elapsedSec, cleanSec, goodBeats, completed: done };
+  }
+}
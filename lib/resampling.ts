@@ -0,0 +1,117 @@
+/**
+ * lib/resampling.ts
+ * Timestamp-aware resampling onto a uniform grid.
+ * Browser timers jitter and get throttled, so recorded samples are not evenly
+ * spaced; everything downstream (filters, peak distances, HR) assumes they are.
+ */
+
+import type { SignalSample } from './signal-processing';
+import { mean, std } from './stats';
+
+export interface TimingStats {
+  sampleCount: number;
+  durationSec: number;
+  nominalIntervalMs: number;   // 1000 / samplingRate
+  meanIntervalMs: number;
+  jitterMs: number;            // Std of inter-sample intervals
+  maxGapMs: number;
+  effectiveRate: number;       // Hz actually achieved
+  droppedFrames: number;       // Estimated missing samples inside gaps
+  dropFraction: number;        // droppedFrames / expected samples
+  duplicates: number;          // Samples sharing a timestamp
+}
+
+export interface ResampledSignal {
+  values: number[];
+  timestamps: number[];        // Uniform grid (ms)
+  samplingRate: number;
+  timing: TimingStats;
+}
+
+// An interval longer than this many nominal periods contains dropped frames
+const GAP_FACTOR = 1.5;
+
+// Above this the recording is too irregular to trust
+export const MAX_DROP_FRACTION = 0.1;
+
+/** Sorts by time and merges samples with equal timestamps (mean value). */
+function cleanSamples(samples: SignalSample[]): { clean: SignalSample[]; duplicates: number } {
+    const sorted = [...samples]
+        .filter(s => isFinite(s.timestamp) && isFinite(s.value))
+        .sort((a, b) => a.timestamp - b.timestamp);
+    const clean: SignalSample[] = [];
+    let duplicates = 0, run = 1;
+    for (const s of sorted) {
+        const last = clean[clean.length - 1];
+        if (last && s.timestamp === last.timestamp) {
+            last.value = (last.value * run + s.value) / (run + 1);
+            run++;
+            duplicates++;
+        } else {
+            clean.push({ ...s });
+            run = 1;
+        }
+    }
+    return { clean, duplicates };
+}
+
+function timingOf(clean: SignalSample[], duplicates: number, fs: number): TimingStats {
+    const nominal = 1000 / fs;
+    const intervals: number[] = [];
+    for (let i = 1; i < clean.length; i++) intervals.push(clean[i].timestamp - clean[i - 1].timestamp);
+
+    let dropped = 0;
+    for (const dt of intervals) {
+        if (dt > GAP_FACTOR * nominal) dropped += Math.round(dt / nominal) - 1;
+    }
+
+    const durationMs = clean.length > 1 ? clean[clean.length - 1].timestamp - clean[0].timestamp : 0;
+    const expected = Math.round(durationMs / nominal) + 1;
+    const meanInterval = mean(intervals);
+    return {
+        sampleCount: clean.length + duplicates,
+        durationSec: durationMs / 1000,
+        nominalIntervalMs: nominal,
+        meanIntervalMs: meanInterval,
+        jitterMs: std(intervals),
+        maxGapMs: intervals.length ? Math.max(...intervals) : 0,
+        effectiveRate: meanInterval > 0 ? 1000 / meanInterval : 0,
+        droppedFrames: dropped,
+        dropFraction: expected > 0 ? dropped / expected : 0,
+        duplicates
+    };
+}
+
+export function analyzeTiming(samples: SignalSample[], fs: number): TimingStats {
+    const { clean, duplicates } = cleanSamples(samples);
+    return timingOf(clean, duplicates, fs);
+}
+
+/**
+ * Linearly interpolates onto t0 + k / fs. Samples without usable timestamps
+ * (fewer than two distinct times) are returned as-is.
+ */
+export function resampleUniform(samples: SignalSample[], fs: number): ResampledSignal {
+    const { clean, duplicates } = cleanSamples(samples);
+    const timing = timingOf(clean, duplicates, fs);
+    if (clean.length < 2) {
+        return { values: samples.map(s => s.value), timestamps: samples.map(s => s.timestamp), samplingRate: fs, timing };
+    }
+
+    const step = 1000 / fs;
+    const t0 = clean[0].timestamp;
+    const n = Math.floor((clean[clean.length - 1].timestamp - t0) / step) + 1;
+    const values = new Array(n);
+    const timestamps = new Array(n);
+
+    let j = 0;
+    for (let k = 0; k < n; k++) {
+        const t = t0 + k * step;
+        while (j < clean.length - 2 && clean[j + 1].timestamp < t) j++;
+        const a = clean[j], b = clean[j + 1];
+        const w = Math.min(Math.max((t - a.timestamp) / (b.timestamp - a.timestamp), 0), 1);
+        values[k] = a.value + w * (b.value - a.value);
+        timestamps[k] = t;
+    }
+    return { values, timestamps, samplingRate: fs, timing };
+}
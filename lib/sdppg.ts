@@ -0,0 +1,112 @@
+/**
+ * lib/sdppg.ts
+ * Second-derivative (acceleration) plethysmogram analysis.
+ * Locates the a, b, c, d, e waves within each beat and derives the
+ * Takazawa ratios b/a, c/a, d/a, e/a and the aging index (b-c-d-e)/a.
+ */
+
+import { gradient } from './signal-processing';
+import type { BeatMorphology } from './beat-segmentation';
+import { median } from './stats';
+
+export interface SdppgWave {
+  index: number;   // Sample index in the processed PPG
+  value: number;   // Second-derivative amplitude
+}
+
+export interface SdppgBeat {
+  beatIndex: number;
+  a: SdppgWave;
+  b: SdppgWave;
+  c: SdppgWave;
+  d: SdppgWave;
+  e: SdppgWave;
+  ba: number;
+  ca: number;
+  da: number;
+  ea: number;
+  agingIndex: number;
+}
+
+export interface SdppgSummary {
+  ba: number;          // Medians over all beats with a complete a-e complex
+  ca: number;
+  da: number;
+  ea: number;
+  agingIndex: number;
+  validBeats: number;
+  beats: SdppgBeat[];
+}
+
+// a-e complex sits in systole / early diastole
+const WAVE_WINDOW_FRACTION = 0.7;
+
+const isLocalMax = (x: number[], i: number) => x[i] >= x[i - 1] && x[i] > x[i + 1];
+const isLocalMin = (x: number[], i: number) => x[i] <= x[i - 1] && x[i] < x[i + 1];
+
+function firstAfter(x: number[], from: number, to: number, test: (x: number[], i: number) => boolean): number {
+    for (let i = Math.max(from, 1); i <= Math.min(to, x.length - 2); i++) {
+        if (test(x, i)) return i;
+    }
+    return -1;
+}
+
+export function secondDerivative(ppg: number[]): number[] {
+    return gradient(gradient(ppg));
+}
+
+/** Locates a-e for one beat; null when the complex is incomplete. */
+export function locateWaves(d2: number[], beat: BeatMorphology): SdppgBeat | null {
+    const { onset, peak, end } = beat;
+    const winEnd = Math.min(end, onset + Math.round(WAVE_WINDOW_FRACTION * (end - onset)));
+    if (winEnd - onset < 5) return null;
+
+    // a: strongest positive wave on the upstroke
+    let ia = onset;
+    for (let i = onset; i <= Math.max(onset + 1, peak); i++) if (d2[i] > d2[ia]) ia = i;
+    if (d2[ia] <= 0) return null;
+
+    // b: deepest negative wave after a
+    let ib = ia + 1;
+    for (let i = ia + 1; i <= winEnd; i++) if (d2[i] < d2[ib]) ib = i;
+
+    const ic = firstAfter(d2, ib + 1, winEnd, isLocalMax);
+    if (ic < 0) return null;
+    const id = firstAfter(d2, ic + 1, winEnd, isLocalMin);
+    if (id < 0) return null;
+    const ie = firstAfter(d2, id + 1, end - 1, isLocalMax);
+    if (ie < 0) return null;
+
+    const wave = (index: number): SdppgWave => ({ index, value: d2[index] });
+    const a = d2[ia], b = d2[ib], c = d2[ic], d = d2[id], e = d2[ie];
+
+    return {
+        beatIndex: beat.index,
+        a: wave(ia), b: wave(ib), c: wave(ic), d: wave(id), e: wave(ie),
+        ba: b / a,
+        ca: c / a,
+        da: d / a,
+        ea: e / a,
+        agingIndex: (b - c - d - e) / a
+    };
+}
+
+export function analyzeSdppg(ppg: number[], beats: BeatMorphology[]): SdppgSummary {
+    const d2 = secondDerivative(ppg);
+    const found = beats
+        .map(b => locateWaves(d2, b))
+        .filter((b): b is SdppgBeat => b !== null);
+
+    const med = (key: 'ba' | 'ca' | 'da' | 'ea' | 'agingIndex') =>
+        found.length ? median(found.map(b => b[key])) : 0;
+
+    return {
+        ba: med('ba'),
+        ca: med('ca'),
+        da: med('da'),
+        ea: med('ea'),
+        agingIndex: med('agingIndex'),
+        validBeats: found.length,
+        beats: found
+    };
+}
@@ -0,0 +1,213 @@
+/**
+ * lib/signal-codec.ts
+ * Compact binary encoding for raw PPG signals.
+ *
+ * Layout (little-endian):
+ *   0  'PPGS' magic
+ *   4  u8  format version
+ *   5  u8  flags (bit 0: int16 values, bit 1: deflate-compressed body)
+ *   6  u16 reserved
+ *   8  f64 start time (ms since epoch)
+ *   16 u32 sample count
+ *   20 f32 value scale, 24 f32 value offset (int16 only; 1 / 0 otherwise)
+ *   28 body: values (f32 or i16), then zig-zag varint timestamp deltas (µs)
+ *
+ * Round trip: timestamps are exact to 1 µs; float32 values are exact to
+ * float32 precision; int16 values are within half a quantization step
+ * (range / 65535 / 2).
+ */
+
+import type { SignalSample } from './signal-processing';
+
+export type ValueFormat = 'float32' | 'int16';
+
+export interface EncodeOptions {
+  values?: ValueFormat;     // Default float32
+  compress?: boolean;       // Deflate the body (if the browser supports it)
+}
+
+const MAGIC = 0x53475050; // 'PPGS'
+const VERSION = 1;
+const HEADER_BYTES = 28;
+
+const FLAG_INT16 = 1;
+const FLAG_COMPRESSED = 2;
+
+const US_PER_MS = 1000;
+
+// ============================================================================
+// VARINT HELPERS
+// ============================================================================
+
+const zigzag = (n: number) => n < 0 ? -2 * n - 1 : 2 * n;
+const unzigzag = (n: number) => n % 2 === 1 ? -(n + 1) / 2 : n / 2;
+
+/** Unsigned LEB128. Uses arithmetic (not bit ops) so values above 2^31 survive. */
+function writeVarint(out: number[], n: number) {
+    while (n >= 0x80) {
+        out.push((n % 0x80) | 0x80);
+        n = Math.floor(n / 0x80);
+    }
+    out.push(n);
+}
+
+function readVarint(bytes: Uint8Array, pos: { i: number }): number {
+    let result = 0, mult = 1, b: number;
+    do {
+        if (pos.i >= bytes.length) throw new Error("Truncated signal data.");
+        b = bytes[pos.i++];
+        result += (b & 0x7f) * mult;
+        mult *= 0x80;
+    } while (b & 0x80);
+    return result;
+}
+
+// ============================================================================
+// PACK / UNPACK (synchronous, uncompressed)
+// ============================================================================
+
+function packBody(samples: SignalSample[], format: ValueFormat, scale: number, offset: number): Uint8Array {
+    const n = samples.length;
+    const valueBytes = n * (format === 'int16' ? 2 : 4);
+    const deltas: number[] = [];
+    let prevUs = Math.round(samples[0]?.timestamp * US_PER_MS) || 0;
+    for (const s of samples) {
+        const us = Math.round(s.timestamp * US_PER_MS);
+        writeVarint(deltas, zigzag(us - prevUs));
+        prevUs = us;
+    }
+
+    const body = new Uint8Array(valueBytes + deltas.length);
+    const view = new DataView(body.buffer);
+    samples.forEach((s, i) => {
+        if (format === 'int16') {
+            const q = Math.round((s.value - offset) / scale);
+            view.setInt16(i * 2, Math.min(Math.max(q, -32768), 32767), true);
+        } else {
+            view.setFloat32(i * 4, s.value, true);
+        }
+    });
+    body.set(deltas, valueBytes);
+    return body;
+}
+
+function writeHeader(flags: number, startTime: number, count: number, scale: number, offset: number): Uint8Array {
+    const header = new Uint8Array(HEADER_BYTES);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, MAGIC, true);
+    view.setUint8(4, VERSION);
+    view.setUint8(5, flags);
+    view.setFloat64(8, startTime, true);
+    view.setUint32(16, count, true);
+    view.setFloat32(20, scale, true);
+    view.setFloat32(24, offset, true);
+    return header;
+}
+
+function int16Params(samples: SignalSample[]): { scale: number; offset: number } {
+    let min = Infinity, max = -Infinity;
+    for (const s of samples) {
+        if (s.value < min) min = s.value;
+        if (s.value > max) max = s.value;
+    }
+    if (!isFinite(min)) return { scale: 1, offset: 0 };
+    // Stored as f32, so round-trip the params before quantizing
+    const offset = Math.fround((min + max) / 2);
+    const scale = Math.fround(Math.max((max - min) / 65534, 1e-9));
+    return { scale, offset };
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+    const out = new Uint8Array(a.length + b.length);
+    out.set(a, 0);
+    out.set(b, a.length);
+    return out;
+}
+
+/** Encodes samples without compression (usable inside IndexedDB upgrades). */
+export function packSignal(samples: SignalSample[], values: ValueFormat = 'float32'): Uint8Array {
+    const { scale, offset } = values === 'int16' ? int16Params(samples) : { scale: 1, offset: 0 };
+    const flags = values === 'int16' ? FLAG_INT16 : 0;
+    const header = writeHeader(flags, samples[0]?.timestamp ?? 0, samples.length, scale, offset);
+    return concat(header, packBody(samples, values, scale, offset));
+}
+
+interface Header {
+  flags: number;
+  startTime: number;
+  count: number;
+  scale: number;
+  offset: number;
+}
+
+function readHeader(bytes: Uint8Array): Header {
+    if (bytes.length < HEADER_BYTES) throw new Error("Not a PPG signal file.");
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (view.getUint32(0, true) !== MAGIC) throw new Error("Not a PPG signal file.");
+    const version = view.getUint8(4);
+    if (version > VERSION) throw new Error(`Unsupported signal format v${version}.`);
+    return {
+        flags: view.getUint8(5),
+        startTime: view.getFloat64(8, true),
+        count: view.getUint32(16, true),
+        scale: view.getFloat32(20, true),
+        offset: view.getFloat32(24, true)
+    };
+}
+
+function unpackBody(body: Uint8Array, h: Header): SignalSample[] {
+    const int16 = (h.flags & FLAG_INT16) !== 0;
+    const valueBytes = h.count * (int16 ? 2 : 4);
+    if (body.length < valueBytes) throw new Error("Truncated signal data.");
+    const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+
+    const samples: SignalSample[] = new Array(h.count);
+    const pos = { i: valueBytes };
+    let us = Math.round(h.startTime * US_PER_MS);
+    for (let i = 0; i < h.count; i++) {
+        us += unzigzag(readVarint(body, pos));
+        const value = int16
+            ? view.getInt16(i * 2, true) * h.scale + h.offset
+            : view.getFloat32(i * 4, true);
+        samples[i] = { timestamp: us / US_PER_MS, value };
+    }
+    return samples;
+}
+
+/** Decodes an uncompressed buffer produced by packSignal / encodeSignal. */
+export function unpackSignal(bytes: Uint8Array): SignalSample[] {
+    const h = readHeader(bytes);
+    if (h.flags & FLAG_COMPRESSED) throw new Error("Compressed signal: use decodeSignal.");
+    return unpackBody(bytes.subarray(HEADER_BYTES), h);
+}
+
+// ============================================================================
+// ENCODE / DECODE (async, optional compression)
+// ============================================================================
+
+const canCompress = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+async function pipeThrough(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const out = new Response(new Blob([data as BlobPart]).stream().pipeThrough(stream));
+    return new Uint8Array(await out.arrayBuffer());
+}
+
+export async function encodeSignal(samples: SignalSample[], options: EncodeOptions = {}): Promise<Uint8Array> {
+    const packed = packSignal(samples, options.values);
+    if (!options.compress || !canCompress()) return packed;
+
+    const body = await pipeThrough(packed.subarray(HEADER_BYTES), new CompressionStream('deflate-raw'));
+    const header = packed.slice(0, HEADER_BYTES);
+    header[5] |= FLAG_COMPRESSED;
+    return concat(header, body);
+}
+
+export async function decodeSignal(bytes: Uint8Array): Promise<SignalSample[]> {
+    const h = readHeader(bytes);
+    let body = bytes.subarray(HEADER_BYTES);
+    if (h.flags & FLAG_COMPRESSED) {
+        if (!canCompress()) throw new Error("Compressed signals are not supported in this browser.");
+        body = await pipeThrough(body, new DecompressionStream('deflate-raw'));
+    }
+    return unpackBody(body, h);
+}
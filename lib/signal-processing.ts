@@ -3,16 +3,38 @@
  * Tuned for more realistic BP/Glucose estimation
  */
 
+import { designBandpassSos, resolveFilterConfig, MAX_NYQUIST_FRACTION, SosCoefficients } from './filter-design';
+import { segmentBeats, aggregateBeats } from './beat-segmentation';
+import { analyzeSdppg } from './sdppg';
+import { mean, std } from './stats';
+import type { SignalQualityReport } from './signal-quality';
+import type { TimingStats } from './resampling';
+import type { ProtocolResult } from './recording-protocol';
+import type { ModelStamp } from './model-registry';
+import type { PredictionUncertainty } from './uncertainty';
+
 const FS = 30;
-const TRIM_SEC = 3; 
+
+export type FilterType = 'butterworth' | 'chebyshev1';
 
 export interface FilterConfig {
   lowCutoff: number;     // Hz
   highCutoff: number;    // Hz
-  order: number;         // Butterworth order
+  order: number;         // Prototype order (bandpass has 2x poles)
   samplingRate: number;  // Hz
+  type?: FilterType;     // Defaults to Butterworth
+  rippleDb?: number;     // Chebyshev I passband ripple
 }
 
+// Matches the Python training preprocessing (butter(4, [0.5, 5], fs=30))
+export const DEFAULT_FILTER_CONFIG: FilterConfig = {
+  lowCutoff: 0.5,
+  highCutoff: 5.0,
+  order: 4,
+  samplingRate: FS,
+  type: 'butterworth',
+};
+
 export interface SignalSample {
   timestamp: number;
   value: number;
@@ -38,9 +60,20 @@ export interface RecordingSession {
   sbp?: number;
   dbp?: number;
   glucose?: number;
-  quality?: string;
+  quality?: string;                     // SQI label (Good / Acceptable / Poor)
+  qualityReport?: SignalQualityReport;
+  timing?: TimingStats;                 // Acquisition jitter / dropped frames
+  protocol?: ProtocolResult;            // Recording protocol and whether its target was reached
+  model?: ModelStamp;                   // Model (id / version) behind sbp / dbp / glucose
+  uncertainty?: PredictionUncertainty;  // 95% intervals for sbp / dbp / glucose and their sources
 }
 
+// extractFeatures output order
+export const FEATURE_NAMES = [
+  'RI', 'AIx', 'sys_slope', 'dia_slope', 'PW50', 'PW75', 'HR', 'HRV', 'AUC',
+  'BA', 'CA', 'DA', 'EA', 'STIFF', 'mean_ppg', 'std_ppg', 'baseline_trend', 'LF'
+] as const;
+
 // ============================================================================
 // ESTIMATION LOGIC (Mathematical / Heuristic)
 // ============================================================================
@@ -51,7 +84,8 @@ export function performMathEstimation(
     height: number, 
     weight: number
 ) {
-    // [0:RI, 1:AIx, 2:sys_slope, 3:dia_slope, 4:PW50, 5:PW75, 6:HR, 7:HRV, 8:AUC, ... 17:LF]
+    // [0:RI, 1:AIx, 2:sys_slope, 3:dia_slope, 4:PW50, 5:PW75, 6:HR, 7:HRV, 8:AUC,
+    //  9:b/a, 10:c/a, 11:d/a, 12:e/a, 13:STIFF, ... 17:LF]
     const RI = features[0] || -0.5; // Reflection Index (usually negative for AC signal)
     const AIx = features[1] || 2.0; // Augmentation Index
     const HR = features[6] || 72;   // Heart Rate
@@ -115,17 +149,11 @@ export function performMathEstimation(
 // PART 2: MATH HELPERS
 // ============================================================================
 
-const _mean = (arr: number[]) => arr.length ? arr.reduce((a, b) => a + b, 0) / arr.length : 0;
+const _sum = (arr: number[]) => arr.reduce((a, b) => a + b, 0);
 const _min = (arr: number[]) => arr.length ? Math.min(...arr) : 0;
 const _max = (arr: number[]) => arr.length ? Math.max(...arr) : 0;
 
-function _std(arr: number[]) {
-    if (arr.length <= 1) return 0;
-    const m = _mean(arr);
-    return Math.sqrt(arr.reduce((a, b) => a + Math.pow(b - m, 2), 0) / arr.length);
-}
-
-function gradient(data: number[]): number[] {
+export function gradient(data: number[]): number[] {
     const n = data.length;
     if (n < 2) return new Array(n).fill(0);
     const out = new Array(n).fill(0);
@@ -145,151 +173,181 @@ function trapz(y: number[]): number {
     return sum;
 }
 
-function getWelchLF(signal: number[], fs: number): number {
-    const nperseg = Math.min(256, signal.length); 
-    if (nperseg < 32) return 0; 
+// ----------------------------------------------------------------------------
+// Spectral Analysis (Welch PSD)
+// ----------------------------------------------------------------------------
+
+export interface SpectralFeatures {
+  freqs: number[];            // Hz
+  psd: number[];              // One-sided PSD (units^2 / Hz)
+  lf: number;                 // 0.01-0.15 Hz band power
+  hf: number;                 // 0.15-0.40 Hz band power
+  lfHfRatio: number;
+  dominantFrequency: number;  // Hz, strongest peak in the pulse band
+  spectralEntropy: number;    // Normalized Shannon entropy [0, 1]
+}
+
+const LF_BAND: [number, number] = [0.01, 0.15];
+const HF_BAND: [number, number] = [0.15, 0.4];
+const PULSE_BAND: [number, number] = [0.5, 4.0];
+
+/**
+ * Welch PSD matching scipy.signal.welch defaults
+ * (periodic Hann, 50% overlap, constant detrend, density scaling).
+ */
+export function welchPSD(signal: number[], fs: number, nperseg: number = 256): { freqs: number[]; psd: number[] } {
+    nperseg = Math.min(nperseg, signal.length);
+    if (nperseg < 32) return { freqs: [], psd: [] };
 
     const step = Math.floor(nperseg / 2);
     const nWindows = Math.floor((signal.length - nperseg) / step) + 1;
-    
-    if (nWindows < 1) return 0; 
+    const nBins = Math.floor(nperseg / 2) + 1;
 
-    const psdAccumulator = new Array(Math.floor(nperseg/2) + 1).fill(0);
     const window = new Array(nperseg).fill(0).map((_, i) => 
-        0.5 * (1 - Math.cos((2 * Math.PI * i) / (nperseg - 1)))
+        0.5 * (1 - Math.cos((2 * Math.PI * i) / nperseg))
     );
+    const psd = new Array(nBins).fill(0);
 
     for (let w = 0; w < nWindows; w++) {
-        const start = w * step;
-        const segment = signal.slice(start, start + nperseg);
-        const fftSize = nperseg;
-        const spectrum = new Array(Math.floor(fftSize/2) + 1).fill(0);
-        
-        for (let k = 0; k < spectrum.length; k++) {
-            let real = 0, imag = 0;
-            const angularFreq = -2 * Math.PI * k / fftSize;
-            for (let n = 0; n < fftSize; n++) {
-                const wVal = segment[n] * window[n];
-                const angle = angularFreq * n;
-                real += wVal * Math.cos(angle);
-                imag += wVal * Math.sin(angle);
-            }
-            spectrum[k] = (real*real + imag*imag);
-        }
-        for (let k = 0; k < spectrum.length; k++) psdAccumulator[k] += spectrum[k];
+        const segment = signal.slice(w * step, w * step + nperseg);
+        const segMean = mean(segment);
+        const { re, im } = fft(segment.map((v, i) => (v - segMean) * window[i]));
+        for (let k = 0; k < nBins; k++) psd[k] += re[k] * re[k] + im[k] * im[k];
     }
 
     const winSumSq = window.reduce((a, b) => a + b*b, 0);
-    const scale = 1.0 / (fs * winSumSq || 1);
-    const avgPSD = psdAccumulator.map(v => (v / nWindows) * scale);
-    
-    for (let k = 1; k < avgPSD.length - 1; k++) avgPSD[k] *= 2;
+    const scale = 1.0 / (fs * winSumSq * nWindows || 1);
+    for (let k = 0; k < nBins; k++) {
+        psd[k] *= scale;
+        // Fold negative frequencies (not DC / Nyquist)
+        if (k > 0 && !(nperseg % 2 === 0 && k === nBins - 1)) psd[k] *= 2;
+    }
 
-    let lfSum = 0;
-    const freqRes = fs / nperseg;
-    for (let k = 0; k < avgPSD.length; k++) {
-        const f = k * freqRes;
-        if (f >= 0.01 && f <= 0.15) lfSum += avgPSD[k];
+    const freqs = psd.map((_, k) => k * fs / nperseg);
+    return { freqs, psd };
+}
+
+function bandPower(freqs: number[], psd: number[], [lo, hi]: [number, number]): number {
+    let sum = 0;
+    for (let k = 0; k < freqs.length; k++) {
+        if (freqs[k] >= lo && freqs[k] <= hi) sum += psd[k];
     }
-    return lfSum;
+    return sum;
+}
+
+export function computeSpectralFeatures(signal: number[], fs: number): SpectralFeatures {
+    const { freqs, psd } = welchPSD(signal, fs);
+    const lf = bandPower(freqs, psd, LF_BAND);
+    const hf = bandPower(freqs, psd, HF_BAND);
+
+    let dominantFrequency = 0, best = -Infinity;
+    for (let k = 0; k < freqs.length; k++) {
+        if (freqs[k] >= PULSE_BAND[0] && freqs[k] <= PULSE_BAND[1] && psd[k] > best) {
+            best = psd[k];
+            dominantFrequency = freqs[k];
+        }
+    }
+
+    const total = psd.reduce((a, b) => a + b, 0);
+    let spectralEntropy = 0;
+    if (total > 0 && psd.length > 1) {
+        for (const p of psd) {
+            const pn = p / total;
+            if (pn > 0) spectralEntropy -= pn * Math.log(pn);
+        }
+        spectralEntropy /= Math.log(psd.length);
+    }
+
+    return {
+        freqs, psd, lf, hf,
+        lfHfRatio: hf > 0 ? lf / hf : 0,
+        dominantFrequency,
+        spectralEntropy
+    };
 }
 
 // ============================================================================
 // PART 3: PREPROCESSING & FEATURES
 // ============================================================================
 
-export function preprocessPPG(raw: number[]): number[] {
+export function preprocessPPG(raw: number[], filterConfig: FilterConfig = DEFAULT_FILTER_CONFIG): number[] {
     if (!raw || raw.length === 0) return [];
 
     if (raw.some(isNaN)) return raw.map(v => isNaN(v) ? 0 : v);
 
-    // Bandpass (Butterworth 4th order, 0.5-5.0Hz, fs=30)
-    const b = [0.032623, 0.0, -0.130493, 0.0, 0.195740, 0.0, -0.130493, 0.0, 0.032623];
-    const a = [1.0, -4.8465, 10.6666, -14.1672, 12.0620, -6.6582, 2.3387, -0.4746, 0.0433];
+    // Bandpass designed from the active config (cutoffs, order, fs); second-order
+    // sections with edge padding keep the full length, as in the Python pipeline
+    let signal = sosfiltfilt(designBandpassSos(filterConfig), raw);
     
-    let signal = filtfilt(b, a, raw);
-    
-    const maxVal = _max(signal.map(Math.abs));
-    if (isNaN(maxVal) || maxVal > 1e9) {
+    if (signal.some(v => !Number.isFinite(v))) {
         console.warn("Filter unstable. Using raw signal.");
         signal = [...raw]; 
     }
 
     // Gaussian Filter (sigma=2)
     signal = gaussianFilter1d(signal, 2);
-
-    // Trim
-    const trimSamples = TRIM_SEC * FS;
-    if (signal.length > 2.5 * trimSamples) {
-        signal = signal.slice(trimSamples, signal.length - trimSamples);
-    } 
     
     return signal;
 }
 
-export function extractFeatures(ppg: number[]): number[] {
+export function extractFeatures(ppg: number[], fs: number = FS): number[] {
     if (!ppg || ppg.length < 30) throw new Error(`Signal too short (${ppg?.length || 0} pts).`);
     
-    const stdVal = _std(ppg);
+    const stdVal = std(ppg);
     if (stdVal < 1e-4) throw new Error(`Signal flatline.`);
 
-    // Peak Detection
-    const peaks = findPeaks(ppg, 10);
-    const valleys = findPeaks(ppg.map(x => -x), 10);
+    // Peak Detection (distances tuned at 30 Hz, scaled to fs)
+    const peakDist = Math.max(1, Math.round(10 * fs / FS));
+    const peaks = findPeaks(ppg, peakDist);
+    const valleys = findPeaks(ppg.map(x => -x), peakDist);
 
     if (peaks.length < 2) throw new Error(`Not enough peaks.`);
     if (valleys.length < 1) throw new Error("No valleys found.");
     
-    const peakValues = peaks.map(i => ppg[i]);
-    const peak_val = _mean(peakValues);
-    const eps = 1e-6; 
+    // Beat-by-beat morphology (foot-to-foot), robust over all clean beats
+    const seg = segmentBeats(ppg, fs);
+    const beats = seg.cleanBeats.length > 0 ? seg.cleanBeats : seg.beats;
+    if (beats.length < 1) throw new Error(`Not enough beats.`);
+    const agg = seg.cleanBeats.length > 0 ? seg.aggregates : aggregateBeats(beats);
 
-    // Safe Access Utils
-    const safeP = (idx: number) => ppg[peaks[Math.min(idx, peaks.length-1)]];
-    const safeV = (idx: number) => ppg[valleys[Math.min(idx, valleys.length-1)]];
-    const safePi = (idx: number) => peaks[Math.min(idx, peaks.length-1)];
-    const safeVi = (idx: number) => valleys[Math.min(idx, valleys.length-1)];
+    const peak_val = agg.peakValue.median;
+    const eps = 1e-6; 
 
     // Features
-    const RI = safeV(0) / (peak_val + eps);
+    const RI = agg.footValue.median / (peak_val + eps);
     const AIx = (_max(ppg) - _min(ppg)) / (peak_val + eps);
-    const sys_num = safeP(0) - safeV(0);
-    const sys_den = Math.abs(safePi(0) - safeVi(0)) + eps;
-    const sys_slope = sys_num / sys_den;
-    const dia_num = safeP(1) - safeV(0);
-    const dia_den = Math.abs(safePi(1) - safeVi(0)) + eps;
-    const dia_slope = dia_num / dia_den;
-    const PW50 = ppg.filter(v => v > 0.5 * peak_val).length / FS;
-    const PW75 = ppg.filter(v => v > 0.75 * peak_val).length / FS;
-    const HR = peaks.length * (60 / (ppg.length / FS));
-    const RR_intervals = [];
-    for(let i=1; i<peaks.length; i++) RR_intervals.push((peaks[i] - peaks[i-1])/FS);
-    const HRV = RR_intervals.length > 0 ? _std(RR_intervals) : 0;
+    const sys_slope = agg.sysSlope.median;
+    const dia_slope = agg.diaSlope.median;
+    const PW50 = agg.pw50.median;
+    const PW75 = agg.pw75.median;
+    const RR_intervals = beats.map(b => b.duration);
+    const HR = 60 / (mean(RR_intervals) || 1);
+    const HRV = RR_intervals.length > 1 ? std(RR_intervals) : 0;
     const AUC = trapz(ppg);
 
-    // Stiffness (SDPPG)
-    const d1 = gradient(ppg);
-    const d2 = gradient(d1);
-    const meanD2 = _mean(d2);
-    const stdD2 = _std(d2);
+    // SDPPG a-e waves (per beat, medians)
+    const sdppg = analyzeSdppg(ppg, beats);
+    const BA = sdppg.ba;
+    const CA = sdppg.ca;
+    const DA = sdppg.da;
+    const EA = sdppg.ea;
+
+    // Stiffness proxy |a-b| of the z-scored SDPPG, as in the training pipeline
+    // (the aging index is on analyzeSdppg, not a model input)
+    const d2 = gradient(gradient(ppg));
+    const meanD2 = mean(d2);
+    const stdD2 = std(d2);
     const d2_norm = d2.map(x => (x - meanD2) / (stdD2 + eps));
-    const sp = findPeaks(d2_norm, 8); 
-
-    let BA=0, CA=0, DA=0, EA=0, STIFF=0;
-    if (sp.length >= 5) {
-        const [ia, ib, ic, id, ie] = sp.slice(0, 5);
-        const a = d2_norm[ia];
-        const b = d2_norm[ib];
-        STIFF = Math.abs(a - b);
-    }
+    const sp = findPeaks(d2_norm, Math.max(1, Math.round(8 * fs / FS)));
+    const STIFF = sp.length >= 5 ? Math.abs(d2_norm[sp[0]] - d2_norm[sp[1]]) : 0;
 
     // Statistical & Spectral
-    const mean_ppg = _mean(ppg);
-    const std_ppg = _std(ppg);
+    const mean_ppg = mean(ppg);
+    const std_ppg = std(ppg);
     const smooth5 = gaussianFilter1d(ppg, 5);
     const trendGrad = gradient(smooth5);
-    const baseline_trend = _mean(trendGrad);
-    const LF = getWelchLF(ppg, FS);
+    const baseline_trend = mean(trendGrad);
+    const LF = computeSpectralFeatures(ppg, fs).lf;
 
     return [
         RI, AIx, sys_slope, dia_slope, PW50, PW75,
@@ -302,15 +360,30 @@ export function extractFeatures(ppg: number[]): number[] {
 // PART 4: APP UTILITIES
 // ============================================================================
 
-export function applyFilterToArray(data: number[]): number[] {
-    return preprocessPPG(data);
+export function applyFilterToArray(data: number[], filterConfig?: FilterConfig): number[] {
+    return preprocessPPG(data, filterConfig);
+}
+
+/**
+ * The saved filter re-based to a stored recording's sampling rate. A high
+ * cutoff the rate cannot carry is pulled below Nyquist; a passband that is
+ * still invalid falls back to the default filter at that rate.
+ */
+export function filterConfigForRate(filterConfig: FilterConfig, fs: number): FilterConfig {
+    const maxHigh = (fs / 2) * MAX_NYQUIST_FRACTION;
+    const highCutoff = filterConfig.highCutoff < maxHigh ? filterConfig.highCutoff : Math.ceil(maxHigh * 10 - 1) / 10;
+    try {
+        return resolveFilterConfig({ ...filterConfig, highCutoff, samplingRate: fs });
+    } catch {
+        return { ...DEFAULT_FILTER_CONFIG, samplingRate: fs };
+    }
 }
 
 export function calculateSignalStats(data: number[]) {
     if (!data || data.length === 0) return { mean: 0, std: 0, min: 0, max: 0 };
     return { 
-        mean: _mean(data), 
-        std: _std(data), 
+        mean: mean(data), 
+        std: std(data), 
         min: _min(data), 
         max: _max(data) 
     };
@@ -324,88 +397,91 @@ export function generateMIMICCSV(session: RecordingSession, startTime: number, e
 }
 
 // ============================================================================
-// PART 5: STORAGE UTILS
+// PART 5: LOW LEVEL MATH UTILS
 // ============================================================================
 
-export class SignalStorage {
-  async saveSession(session: RecordingSession) {
-    const sessions = await this.getSessions();
-    sessions.push(session);
-    // Keep last 50
-    if (sessions.length > 50) sessions.shift();
-    localStorage.setItem('ppg_sessions', JSON.stringify(sessions));
-  }
-
-  async getSessions(): Promise<RecordingSession[]> {
-    if (typeof window === 'undefined') return [];
-    const s = localStorage.getItem('ppg_sessions');
-    if(!s) return [];
-    try {
-        return JSON.parse(s).map((x:any) => ({
-            ...x,
-            createdAt: new Date(x.createdAt)
-        }));
-    } catch (e) {
-        console.error("Failed to parse sessions", e);
-        return [];
-    }
-  }
-
-  async deleteSession(id: string) {
-    const sessions = await this.getSessions();
-    const filtered = sessions.filter(s => s.id !== id);
-    localStorage.setItem('ppg_sessions', JSON.stringify(filtered));
-  }
-
-  async clearAll() {
-    localStorage.removeItem('ppg_sessions');
-  }
+/**
+ * Zero-phase filtering, as scipy.signal.filtfilt(b, a, x): odd extension by
+ * 3 * max(len(a), len(b)) samples and steady-state initial conditions
+ * (lfilter_zi) scaled to the first sample of each pass, so the output has
+ * the input's length without edge transients.
+ */
+export function filtfilt(b: number[], a: number[], x: number[]): number[] {
+    const zi = lfilterZi(b, a);
+    return zeroPhase(x, 3 * Math.max(a.length, b.length), v => lfilter(b, a, v, zi.map(z => z * v[0])));
+}
 
-  async generateNextId(): Promise<string> {
-    const sessions = await this.getSessions();
-    
-    // FIX: Filter out large timestamp IDs (e.g. > 1,000,000)
-    // We only want to increment the small clean IDs (000001, 000002...)
-    const ids = sessions
-        .map(s => parseInt(s.id, 10))
-        .filter(n => !isNaN(n) && n < 1000000); 
+/** As scipy.signal.sosfiltfilt; the padding depends on the number of sections. */
+export function sosfiltfilt(sos: SosCoefficients, x: number[]): number[] {
+    const trailingZeros = Math.min(sos.filter(s => s[2] === 0).length, sos.filter(s => s[5] === 0).length);
+    const zi = sosfiltZi(sos);
+    return zeroPhase(x, 3 * (2 * sos.length + 1 - trailingZeros), v => sosfilt(sos, v, zi.map(s => s.map(z => z * v[0]))));
+}
 
-    if (ids.length === 0) return "000001"; 
-    
-    const maxId = Math.max(...ids);
-    const next = maxId + 1;
-    return next.toString().padStart(6, '0');
-  }
+/** Direct form II transposed; `zi` holds the initial delay-line state. */
+export function lfilter(b: number[], a: number[], x: number[], zi?: number[]): number[] {
+    const n = Math.max(a.length, b.length);
+    const bn = Array.from({ length: n }, (_, i) => (b[i] ?? 0) / a[0]);
+    const an = Array.from({ length: n }, (_, i) => (a[i] ?? 0) / a[0]);
+    const z = zi ? [...zi] : new Array(n - 1).fill(0);
+    const y = new Array(x.length);
+
+    for (let k = 0; k < x.length; k++) {
+        const xk = x[k];
+        const yk = bn[0] * xk + (z[0] ?? 0);
+        for (let i = 1; i < n - 1; i++) z[i - 1] = bn[i] * xk - an[i] * yk + z[i];
+        if (n > 1) z[n - 2] = bn[n - 1] * xk - an[n - 1] * yk;
+        y[k] = yk;
+    }
+    return y;
 }
 
-// ============================================================================
-// PART 6: LOW LEVEL MATH UTILS
-// ============================================================================
+/** Cascade of biquads, each with its own state (`zi[section] = [z1, z2]`). */
+export function sosfilt(sos: SosCoefficients, x: number[], zi?: number[][]): number[] {
+    return sos.reduce((y, s, i) => lfilter(s.slice(0, 3), s.slice(3), y, zi?.[i]), x);
+}
 
-function filtfilt(b: number[], a: number[], x: number[]): number[] {
-    const forward = lfilter(b, a, x);
-    const backward = lfilter(b, a, forward.reverse());
-    return backward.reverse();
+/** Delay-line state for a unit step in steady state (scipy lfilter_zi). */
+export function lfilterZi(b: number[], a: number[]): number[] {
+    const n = Math.max(a.length, b.length);
+    const bn = Array.from({ length: n }, (_, i) => (b[i] ?? 0) / a[0]);
+    const an = Array.from({ length: n }, (_, i) => (a[i] ?? 0) / a[0]);
+    const gain = _sum(bn) / _sum(an);
+    // z[k-1] = sum_{j>=k} (b[j] - a[j] * gain)
+    const zi = new Array(n - 1).fill(0);
+    for (let k = n - 1; k >= 1; k--) zi[k - 1] = bn[k] - an[k] * gain + (k < n - 1 ? zi[k] : 0);
+    return zi;
 }
 
-function lfilter(b: number[], a: number[], x: number[]): number[] {
-    const y = new Array(x.length).fill(0);
-    const safe = (v: number) => isNaN(v) ? 0 : v;
+/** Per-section steady state, scaled by the DC gain of the sections before it. */
+export function sosfiltZi(sos: SosCoefficients): number[][] {
+    let scale = 1;
+    return sos.map(s => {
+        const b = s.slice(0, 3), a = s.slice(3);
+        const zi = lfilterZi(b, a).map(z => z * scale);
+        scale *= _sum(b) / _sum(a);
+        return zi;
+    });
+}
 
-    for (let n = 0; n < x.length; n++) {
-        for (let i = 0; i < b.length; i++) {
-            if (n - i >= 0) y[n] += b[i] * safe(x[n - i]);
-        }
-        for (let j = 1; j < a.length; j++) {
-            if (n - j >= 0) y[n] -= a[j] * safe(y[n - j]);
-        }
-        y[n] /= a[0];
-        if(Math.abs(y[n]) > 1e9) y[n] = 0;
-    }
-    return y;
+/** Odd extension (2 * x[edge] - mirror), forward and backward passes, then cropped. */
+function zeroPhase(x: number[], padlen: number, pass: (v: number[]) => number[]): number[] {
+    if (x.length === 0) return [];
+    // scipy rejects inputs shorter than the padding; shorten the padding instead
+    const edge = Math.min(padlen, x.length - 1);
+    const n = x.length;
+    const ext = [
+        ...Array.from({ length: edge }, (_, i) => 2 * x[0] - x[edge - i]),
+        ...x,
+        ...Array.from({ length: edge }, (_, i) => 2 * x[n - 1] - x[n - 2 - i])
+    ];
+    const forward = pass(ext);
+    const backward = pass(forward.reverse()).reverse();
+    return backward.slice(edge, edge + n);
 }
 
-function gaussianFilter1d(data: number[], sigma: number): number[] {
+/** Gaussian smoothing (truncated at 4 sigma, edge samples repeated). */
+export function gaussianFilter1d(data: number[], sigma: number): number[] {
     const radius = Math.ceil(4 * sigma);
     const kernel: number[] = [];
     let sum = 0;
@@ -428,7 +504,7 @@ function gaussianFilter1d(data: number[], sigma: number): number[] {
     return result;
 }
 
-function findPeaks(data: number[], distance: number): number[] {
+export function findPeaks(data: number[], distance: number): number[] {
     const candidates: number[] = [];
     for(let i=1; i<data.length-1; i++){
         if(data[i] > data[i-1] && data[i] > data[i+1]){
@@ -444,4 +520,96 @@ function findPeaks(data: number[], distance: number): number[] {
         }
     }
     return kept.sort((a,b) => a - b);
-}
\ No newline at end of file
+}
+
+// ----------------------------------------------------------------------------
+// FFT (iterative radix-2, Bluestein for arbitrary lengths)
+// ----------------------------------------------------------------------------
+
+/** Discrete Fourier transform of a real or complex sequence of any length. */
+export function fft(real: number[], imag?: number[]): { re: number[]; im: number[] } {
+    const n = real.length;
+    const re = Float64Array.from(real);
+    const im = imag ? Float64Array.from(imag) : new Float64Array(n);
+    if (n <= 1) return { re: Array.from(re), im: Array.from(im) };
+
+    if ((n & (n - 1)) === 0) fftRadix2(re, im);
+    else fftBluestein(re, im);
+    return { re: Array.from(re), im: Array.from(im) };
+}
+
+function fftRadix2(re: Float64Array, im: Float64Array, inverse: boolean = false) {
+    const n = re.length;
+    // Bit-reversal permutation
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+    for (let len = 2; len <= n; len <<= 1) {
+        const ang = (inverse ? 2 : -2) * Math.PI / len;
+        const wRe = Math.cos(ang), wIm = Math.sin(ang);
+        for (let i = 0; i < n; i += len) {
+            let curRe = 1, curIm = 0;
+            for (let k = 0; k < len / 2; k++) {
+                const aIdx = i + k, bIdx = i + k + len / 2;
+                const tRe = re[bIdx] * curRe - im[bIdx] * curIm;
+                const tIm = re[bIdx] * curIm + im[bIdx] * curRe;
+                re[bIdx] = re[aIdx] - tRe;
+                im[bIdx] = im[aIdx] - tIm;
+                re[aIdx] += tRe;
+                im[aIdx] += tIm;
+                const nextRe = curRe * wRe - curIm * wIm;
+                curIm = curRe * wIm + curIm * wRe;
+                curRe = nextRe;
+            }
+        }
+    }
+    if (inverse) {
+        for (let i = 0; i < n; i++) { re[i] /= n; im[i] /= n; }
+    }
+}
+
+function fftBluestein(re: Float64Array, im: Float64Array) {
+    const n = re.length;
+    let m = 1;
+    while (m < 2 * n - 1) m <<= 1;
+
+    // Chirp w_k = exp(-i*pi*k^2/n); k^2 taken mod 2n to preserve precision
+    const cosT = new Float64Array(n), sinT = new Float64Array(n);
+    for (let k = 0; k < n; k++) {
+        const ang = Math.PI * ((k * k) % (2 * n)) / n;
+        cosT[k] = Math.cos(ang);
+        sinT[k] = Math.sin(ang);
+    }
+
+    const aRe = new Float64Array(m), aIm = new Float64Array(m);
+    for (let k = 0; k < n; k++) {
+        aRe[k] = re[k] * cosT[k] + im[k] * sinT[k];
+        aIm[k] = -re[k] * sinT[k] + im[k] * cosT[k];
+    }
+    const bRe = new Float64Array(m), bIm = new Float64Array(m);
+    bRe[0] = cosT[0]; bIm[0] = sinT[0];
+    for (let k = 1; k < n; k++) {
+        bRe[k] = bRe[m - k] = cosT[k];
+        bIm[k] = bIm[m - k] = sinT[k];
+    }
+
+    fftRadix2(aRe, aIm);
+    fftRadix2(bRe, bIm);
+    for (let i = 0; i < m; i++) {
+        const r = aRe[i] * bRe[i] - aIm[i] * bIm[i];
+        aIm[i] = aRe[i] * bIm[i] + aIm[i] * bRe[i];
+        aRe[i] = r;
+    }
+    fftRadix2(aRe, aIm, true);
+
+    for (let k = 0; k < n; k++) {
+        re[k] = aRe[k] * cosT[k] + aIm[k] * sinT[k];
+        im[k] = -aRe[k] * sinT[k] + aIm[k] * cosT[k];
+    }
+}
@@ -0,0 +1,176 @@
+/**
+ * lib/signal-quality.ts
+ * Signal Quality Index (SQI) engine for camera PPG recordings.
+ * Combines perfusion, beat-template correlation, skewness, red-channel
+ * clipping and motion detection into a 0-100 score with per-segment labels.
+ */
+
+import { findPeaks } from './signal-processing';
+import { mean, median, percentile, pearson, skewness } from './stats';
+
+export type QualityLabel = 'Good' | 'Acceptable' | 'Poor';
+export type QualityFlag = 'clipping' | 'motion' | 'low-perfusion' | 'irregular-morphology';
+export type QualityDecision = 'accept' | 'warn' | 'reject';
+
+export interface SegmentQuality {
+  start: number;   // s (relative to recording start)
+  end: number;     // s
+  score: number;   // 0-100
+  label: QualityLabel;
+  flags: QualityFlag[];
+}
+
+export interface SignalQualityReport {
+  score: number;                 // 0-100
+  label: QualityLabel;
+  perfusionIndex: number;        // AC/DC in %
+  templateCorrelation: number;   // Mean beat-to-template correlation
+  skewness: number;              // Skewness SQI of the filtered signal
+  clippingFraction: number;      // Fraction of raw samples at sensor limits
+  motionFraction: number;        // Fraction of segments flagged for motion
+  segments: SegmentQuality[];
+}
+
+const SEGMENT_SEC = 5;
+// 8-bit red channel limits (torch saturation / no light)
+const CLIP_HIGH = 250;
+const CLIP_LOW = 5;
+// Segment amplitude vs. recording median that indicates motion
+const MOTION_AMPLITUDE_RATIO = 3;
+const MIN_PERFUSION_INDEX = 0.05;  // %
+const MIN_TEMPLATE_CORR = 0.8;
+
+const GOOD_SCORE = 70;
+const ACCEPTABLE_SCORE = 45;
+const REJECT_SCORE = 25;
+
+const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+
+const toLabel = (score: number): QualityLabel =>
+    score >= GOOD_SCORE ? 'Good' : score >= ACCEPTABLE_SCORE ? 'Acceptable' : 'Poor';
+
+// ============================================================================
+// INDIVIDUAL SQIs
+// ============================================================================
+
+/** Robust peak-to-peak amplitude (5th-95th percentile). */
+const amplitude = (x: number[]) => percentile(x, 95) - percentile(x, 5);
+
+export function perfusionIndex(raw: number[], filtered: number[]): number {
+    const dc = mean(raw);
+    return dc > 0 ? (amplitude(filtered) / dc) * 100 : 0;
+}
+
+export function clippingFraction(raw: number[]): number {
+    if (raw.length === 0) return 0;
+    return raw.filter(v => v >= CLIP_HIGH || v <= CLIP_LOW).length / raw.length;
+}
+
+/**
+ * Mean correlation of each beat (centred on its systolic peak) with the
+ * average beat template. Values near 1 indicate consistent morphology.
+ */
+export function templateCorrelation(filtered: number[], fs: number): number {
+    const peaks = findPeaks(filtered, Math.max(1, Math.round(0.33 * fs)));
+    if (peaks.length < 3) return 0;
+
+    const rr: number[] = [];
+    for (let i = 1; i < peaks.length; i++) rr.push(peaks[i] - peaks[i - 1]);
+    const half = Math.max(2, Math.round(median(rr) / 2));
+
+    const beats = peaks
+        .filter(p => p - half >= 0 && p + half < filtered.length)
+        .map(p => filtered.slice(p - half, p + half));
+    if (beats.length < 2) return 0;
+
+    const template = beats[0].map((_, i) => mean(beats.map(b => b[i])));
+    return mean(beats.map(b => pearson(b, template)));
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+function scoreOf(tc: number, skew: number, pi: number, clip: number, motion: number): number {
+    return 100 * (
+        0.40 * clamp01((tc - 0.5) / 0.45) +
+        0.15 * clamp01((skew + 1) / 2) +
+        0.15 * clamp01(pi / 0.2) +
+        0.15 * (1 - clamp01(clip / 0.2)) +
+        0.15 * (1 - clamp01(motion))
+    );
+}
+
+/**
+ * Assesses a recording. `filtered` is the output of preprocessPPG (same length
+ * as `raw`); a symmetrically trimmed input is still aligned by its offset.
+ */
+export function assessSignalQuality(raw: number[], filtered: number[], fs: number): SignalQualityReport {
+    const offset = Math.max(0, Math.floor((raw.length - filtered.length) / 2));
+    const segLen = Math.max(1, Math.round(SEGMENT_SEC * fs));
+
+    // Amplitude reference for motion detection
+    const amplitudes: number[] = [];
+    for (let s = 0; s + segLen <= filtered.length; s += segLen) {
+        amplitudes.push(amplitude(filtered.slice(s, s + segLen)));
+    }
+    const refAmplitude = median(amplitudes);
+
+    const segments: SegmentQuality[] = [];
+    for (let s = 0; s < filtered.length; s += segLen) {
+        const f = filtered.slice(s, s + segLen);
+        if (f.length < segLen / 2) break;
+        const r = raw.slice(offset + s, offset + s + f.length);
+
+        const pi = perfusionIndex(r, f);
+        const clip = clippingFraction(r);
+        const tc = templateCorrelation(f, fs);
+        const skew = skewness(f);
+        const motion = refAmplitude > 0 && amplitude(f) > MOTION_AMPLITUDE_RATIO * refAmplitude;
+
+        const flags: QualityFlag[] = [];
+        if (clip > 0.1) flags.push('clipping');
+        if (motion) flags.push('motion');
+        if (pi < MIN_PERFUSION_INDEX) flags.push('low-perfusion');
+        if (tc < MIN_TEMPLATE_CORR) flags.push('irregular-morphology');
+
+        const score = scoreOf(tc, skew, pi, clip, motion ? 1 : 0);
+        segments.push({
+            start: (offset + s) / fs,
+            end: (offset + s + f.length) / fs,
+            score: Math.round(score),
+            label: toLabel(score),
+            flags
+        });
+    }
+
+    const tc = templateCorrelation(filtered, fs);
+    const skew = skewness(filtered);
+    const pi = perfusionIndex(raw.slice(offset, offset + filtered.length), filtered);
+    const clip = clippingFraction(raw);
+    const motionFraction = segments.length
+        ? segments.filter(s => s.flags.includes('motion')).length / segments.length
+        : 0;
+
+    const score = Math.round(scoreOf(tc, skew, pi, clip, motionFraction));
+    return {
+        score,
+        label: toLabel(score),
+        perfusionIndex: pi,
+        templateCorrelation: tc,
+        skewness: skew,
+        clippingFraction: clip,
+        motionFraction,
+        segments
+    };
+}
+
+/**
+ * Decides whether features should be extracted from a recording.
+ * Mostly-clipped or very low scoring signals are rejected outright.
+ */
+export function qualityDecision(report: SignalQualityReport): QualityDecision {
+    if (report.clippingFraction > 0.5 || report.score < REJECT_SCORE) return 'reject';
+    if (report.label === 'Poor' || report.motionFraction > 0.3) return 'warn';
+    return 'accept';
+}
@@ -0,0 +1,192 @@
+/**
+ * lib/signal-sources.ts
+ * Interchangeable inputs for the recording flow: the phone camera, a
+ * synthetic PPG generator and real-time replay of a CSV / stored session.
+ */
+
+import type { SignalSample } from './signal-processing';
+import type { FrameStats } from './camera-utils';
+import { FrameSampler } from './frame-sampler';
+import { decodeSignal } from './signal-codec';
+import { generateSyntheticPpg } from './synthetic-ppg';
+
+export type SourceKind = 'camera' | 'synthetic' | 'replay';
+
+export interface SourceSample extends SignalSample {
+  stats?: FrameStats;   // Camera only (drives finger-contact feedback)
+}
+
+export interface SignalSource {
+  readonly kind: SourceKind;
+  readonly label: string;
+  /** `onEnd` fires when a finite source runs out of samples. */
+  start(onSample: (sample: SourceSample) => void, onEnd?: () => void): void;
+  stop(): void;
+}
+
+// Pacing tick for generated / replayed samples
+const TICK_MS = 20;
+
+// ============================================================================
+// CAMERA
+// ============================================================================
+
+export class CameraSource implements SignalSource {
+  readonly kind = 'camera';
+  readonly label = 'Camera';
+  private sampler: FrameSampler | null = null;
+
+  constructor(private video: HTMLVideoElement, private fps: number = 30) {}
+
+  start(onSample: (sample: SourceSample) => void) {
+    this.sampler = new FrameSampler(this.video, ({ timestamp, stats }) => {
+      onSample({ timestamp, value: stats.red, stats });
+    }, this.fps);
+    this.sampler.start();
+  }
+
+  stop() {
+    this.sampler?.stop();
+    this.sampler = null;
+  }
+}
+
+// ============================================================================
+// SYNTHETIC
+// ============================================================================
+
+export interface SyntheticOptions {
+  heartRate: number;        // bpm
+  hrv: number;              // RR interval std (ms)
+  noise: number;            // Gaussian noise std, relative to pulse amplitude
+  motionArtifacts: boolean; // Occasional motion bursts
+  samplingRate: number;     // Hz
+}
+
+export const DEFAULT_SYNTHETIC_OPTIONS: SyntheticOptions = {
+  heartRate: 72,
+  hrv: 40,
+  noise: 0.05,
+  motionArtifacts: false,
+  samplingRate: 30,
+};
+
+// Generated up front and paced out in real time
+const SYNTHETIC_BUFFER_SEC = 600;
+const MOTION_BURSTS_PER_MIN = 4;
+
+export class SyntheticSource implements SignalSource {
+  readonly kind = 'synthetic';
+  readonly label: string;
+  private options: SyntheticOptions;
+  private timerId: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: Partial<SyntheticOptions> = {}) {
+    this.options = { ...DEFAULT_SYNTHETIC_OPTIONS, ...options };
+    this.label = `Synthetic ${this.options.heartRate} bpm`;
+  }
+
+  start(onSample: (sample: SourceSample) => void, onEnd?: () => void) {
+    const { heartRate, hrv, noise, motionArtifacts, samplingRate } = this.options;
+    const { signal } = generateSyntheticPpg({
+      durationSec: SYNTHETIC_BUFFER_SEC,
+      samplingRate,
+      heartRate,
+      sdnn: hrv,
+      noise,
+      motionBursts: motionArtifacts ? MOTION_BURSTS_PER_MIN : 0
+    });
+    const step = 1000 / samplingRate;
+    const t0 = Date.now();
+    let k = 0;
+
+    this.timerId = setInterval(() => {
+      const elapsed = Date.now() - t0;
+      for (; k < signal.length && k * step <= elapsed; k++) {
+        onSample({ timestamp: t0 + k * step, value: signal[k] });
+      }
+      if (k >= signal.length) {
+        this.stop();
+        onEnd?.();
+      }
+    }, TICK_MS);
+  }
+
+  stop() {
+    if (this.timerId) clearInterval(this.timerId);
+    this.timerId = null;
+  }
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+/** Plays samples back at their original pace, re-based to the current time. */
+export class ReplaySource implements SignalSource {
+  readonly kind = 'replay';
+  private timerId: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private samples: SignalSample[], readonly label: string = 'Replay') {}
+
+  get durationSec(): number {
+    return this.samples.length > 1 ? (this.samples[this.samples.length - 1].timestamp - this.samples[0].timestamp) / 1000 : 0;
+  }
+
+  start(onSample: (sample: SourceSample) => void, onEnd?: () => void) {
+    if (this.samples.length === 0) { onEnd?.(); return; }
+    const t0 = Date.now();
+    const first = this.samples[0].timestamp;
+    let i = 0;
+
+    this.timerId = setInterval(() => {
+      const elapsed = Date.now() - t0;
+      for (; i < this.samples.length && this.samples[i].timestamp - first <= elapsed; i++) {
+        const s = this.samples[i];
+        onSample({ timestamp: t0 + (s.timestamp - first), value: s.value });
+      }
+      if (i >= this.samples.length) {
+        this.stop();
+        onEnd?.();
+      }
+    }, TICK_MS);
+  }
+
+  stop() {
+    if (this.timerId) clearInterval(this.timerId);
+    this.timerId = null;
+  }
+}
+
+/**
+ * Parses `time,value[,...]` rows. Time is an ISO date, epoch ms, or seconds
+ * (app CSV exports and the documented Time(s) format); `#` lines and a
+ * non-numeric header row are skipped.
+ */
+export function parseSignalCsv(text: string): SignalSample[] {
+    const samples: SignalSample[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        const row = line.trim();
+        if (!row || row.startsWith('#')) continue;
+        const [timeCol, valueCol] = row.split(',');
+        const value = parseFloat(valueCol);
+        if (valueCol === undefined || isNaN(value)) continue;
+
+        let timestamp = Number(timeCol);
+        if (isNaN(timestamp)) timestamp = Date.parse(timeCol);
+        else if (timestamp < 1e11) timestamp *= 1000;   // Seconds
+        if (isNaN(timestamp)) continue;
+
+        samples.push({ timestamp, value });
+    }
+    if (samples.length === 0) throw new Error("No samples found in file.");
+    return samples;
+}
+
+/** Loads a CSV or binary .ppgs file for replay. */
+export async function loadSignalFile(file: File): Promise<SignalSample[]> {
+    if (file.name.toLowerCase().endsWith('.ppgs')) {
+        return decodeSignal(new Uint8Array(await file.arrayBuffer()));
+    }
+    return parseSignalCsv(await file.text());
+}
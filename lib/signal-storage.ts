@@ -0,0 +1,157 @@
+/**
+ * lib/signal-storage.ts
+ * IndexedDB-backed session storage.
+ * Session metadata and raw signal chunks live in separate object stores so
+ * lists stay cheap and long recordings are not bound by the localStorage quota.
+ */
+
+import type { RecordingSession, SignalSample } from './signal-processing';
+import { encodeSignal, decodeSignal } from './signal-codec';
+import { openDatabase, request, done, STORES, LEGACY_SESSIONS_KEY } from './database';
+
+const SESSIONS_STORE = STORES.sessions;
+const CHUNKS_STORE = STORES.signalChunks;
+
+// 1 minute at 30 Hz per chunk
+const CHUNK_SIZE = 1800;
+
+/** Session metadata without the raw signal, as kept in the sessions store. */
+export type SessionSummary = Omit<RecordingSession, 'rawSignal'> & {
+  sampleCount: number;
+  chunkCount: number;
+};
+
+interface SignalChunk {
+  sessionId: string;
+  index: number;
+  data: Uint8Array;   // signal-codec encoded samples
+}
+
+export interface StorageEstimate {
+  usage: number;       // bytes
+  quota: number;       // bytes
+  persisted: boolean;
+}
+
+const chunkRange = (sessionId: string) => IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]);
+
+/** Encodes a signal into fixed-size compressed chunks. */
+async function encodeChunks(sessionId: string, samples: SignalSample[]): Promise<SignalChunk[]> {
+  const chunkCount = Math.ceil(samples.length / CHUNK_SIZE);
+  return Promise.all(new Array(chunkCount).fill(0).map(async (_, i) => ({
+    sessionId,
+    index: i,
+    data: await encodeSignal(samples.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE), { compress: true })
+  })));
+}
+
+/** Writes metadata + chunks for a session, replacing any previous chunks. */
+function writeSession(tx: IDBTransaction, session: RecordingSession, encoded: SignalChunk[]) {
+  const { rawSignal, ...meta } = session;
+  const summary: SessionSummary = { ...meta, sampleCount: rawSignal?.length || 0, chunkCount: encoded.length };
+
+  const chunks = tx.objectStore(CHUNKS_STORE);
+  chunks.delete(chunkRange(session.id));
+  encoded.forEach(c => chunks.put(c));
+  tx.objectStore(SESSIONS_STORE).put(summary);
+}
+
+// ============================================================================
+// STORAGE API
+// ============================================================================
+
+export class SignalStorage {
+  async saveSession(session: RecordingSession) {
+    // Encode before opening the transaction: IDB transactions cannot span awaits
+    const encoded = await encodeChunks(session.id, session.rawSignal || []);
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite');
+    writeSession(tx, session, encoded);
+    await done(tx);
+  }
+
+  /** Metadata for every session (no signal data). */
+  async getSessionSummaries(): Promise<SessionSummary[]> {
+    if (typeof window === 'undefined') return [];
+    const db = await openDatabase();
+    const tx = db.transaction(SESSIONS_STORE, 'readonly');
+    return request(tx.objectStore(SESSIONS_STORE).getAll() as IDBRequest<SessionSummary[]>);
+  }
+
+  /** Full session including the reassembled raw signal. */
+  async getSession(id: string): Promise<RecordingSession | null> {
+    if (typeof window === 'undefined') return null;
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readonly');
+    const [summary, chunks] = await Promise.all([
+      request(tx.objectStore(SESSIONS_STORE).get(id) as IDBRequest<SessionSummary | undefined>),
+      request(tx.objectStore(CHUNKS_STORE).getAll(chunkRange(id)) as IDBRequest<SignalChunk[]>)
+    ]);
+    return summary ? toSession(summary, chunks) : null;
+  }
+
+  async getSessions(): Promise<RecordingSession[]> {
+    const summaries = await this.getSessionSummaries();
+    const sessions = await Promise.all(summaries.map(s => this.getSession(s.id)));
+    return sessions.filter((s): s is RecordingSession => s !== null);
+  }
+
+  async deleteSession(id: string) {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).delete(id);
+    tx.objectStore(CHUNKS_STORE).delete(chunkRange(id));
+    await done(tx);
+  }
+
+  async clearAll() {
+    const db = await openDatabase();
+    const tx = db.transaction([SESSIONS_STORE, CHUNKS_STORE], 'readwrite');
+    tx.objectStore(SESSIONS_STORE).clear();
+    tx.objectStore(CHUNKS_STORE).clear();
+    await done(tx);
+    localStorage.removeItem(LEGACY_SESSIONS_KEY);
+  }
+
+  async generateNextId(): Promise<string> {
+    const sessions = await this.getSessionSummaries();
+
+    // FIX: Filter out large timestamp IDs (e.g. > 1,000,000)
+    // We only want to increment the small clean IDs (000001, 000002...)
+    const ids = sessions
+        .map(s => parseInt(s.id, 10))
+        .filter(n => !isNaN(n) && n < 1000000);
+
+    if (ids.length === 0) return "000001";
+
+    const maxId = Math.max(...ids);
+    const next = maxId + 1;
+    return next.toString().padStart(6, '0');
+  }
+
+  /** Origin-wide usage / quota as reported by the browser (0 if unavailable). */
+  async getStorageEstimate(): Promise<StorageEstimate> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+      return { usage: 0, quota: 0, persisted: false };
+    }
+    const [estimate, persisted] = await Promise.all([
+      navigator.storage.estimate(),
+      navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false)
+    ]);
+    return { usage: estimate.usage || 0, quota: estimate.quota || 0, persisted };
+  }
+
+  /** Asks the browser not to evict recordings under storage pressure. */
+  async requestPersistence(): Promise<boolean> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false;
+    return navigator.storage.persist();
+  }
+}
+
+async function toSession(summary: SessionSummary, chunks: SignalChunk[]): Promise<RecordingSession> {
+  const { sampleCount, chunkCount, ...meta } = summary;
+  const decoded = await Promise.all(
+    chunks.sort((a, b) => a.index - b.index).map(c => decodeSignal(c.data))
+  );
+  return { ...meta, rawSignal: decoded.flat() };
+}
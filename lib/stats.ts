@@ -0,0 +1,48 @@
+/**
+ * lib/stats.ts
+ * Small descriptive-statistics helpers shared by the analysis modules.
+ */
+
+export const mean = (arr: number[]) => arr.length ? arr.reduce((a, b) => a + b, 0) / arr.length : 0;
+
+export function std(arr: number[]): number {
+    if (arr.length <= 1) return 0;
+    const m = mean(arr);
+    return Math.sqrt(arr.reduce((a, b) => a + (b - m) * (b - m), 0) / arr.length);
+}
+
+/** Linear-interpolated percentile (numpy default), p in [0, 100]. */
+export function percentile(arr: number[], p: number): number {
+    if (arr.length === 0) return 0;
+    const sorted = [...arr].sort((a, b) => a - b);
+    const pos = (sorted.length - 1) * Math.min(Math.max(p, 0), 100) / 100;
+    const lo = Math.floor(pos), hi = Math.ceil(pos);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+export const median = (arr: number[]) => percentile(arr, 50);
+
+export const iqr = (arr: number[]) => percentile(arr, 75) - percentile(arr, 25);
+
+export function skewness(arr: number[]): number {
+    const s = std(arr);
+    if (arr.length < 3 || s === 0) return 0;
+    const m = mean(arr);
+    return arr.reduce((a, b) => a + Math.pow((b - m) / s, 3), 0) / arr.length;
+}
+
+/** Pearson correlation of two equal-length sequences (0 if degenerate). */
+export function pearson(x: number[], y: number[]): number {
+    const n = Math.min(x.length, y.length);
+    if (n < 2) return 0;
+    const mx = mean(x.slice(0, n)), my = mean(y.slice(0, n));
+    let sxy = 0, sxx = 0, syy = 0;
+    for (let i = 0; i < n; i++) {
+        const dx = x[i] - mx, dy = y[i] - my;
+        sxy += dx * dy;
+        sxx += dx * dx;
+        syy += dy * dy;
+    }
+    const den = Math.sqrt(sxx * syy);
+    return den > 0 ? sxy / den : 0;
+}
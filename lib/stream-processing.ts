@@ -0,0 +1,224 @@
+/**
+ * lib/stream-processing.ts
+ * Causal, sample-by-sample version of the preprocessing chain for live
+ * feedback while recording: bandpass (second-order sections), Gaussian
+ * smoothing with a fixed delay, incremental beat detection, running HR and
+ * a rolling quality score. Final analysis still runs the zero-phase batch
+ * pipeline on the resampled recording.
+ */
+
+import { designBandpassSos, SosCoefficients } from './filter-design';
+import { FilterConfig, SignalSample, sosfiltZi } from './signal-processing';
+import { assessSignalQuality, SignalQualityReport } from './signal-quality';
+import { median } from './stats';
+
+export interface LiveVitals {
+  heartRate: number | null;         // bpm, median of recent beat intervals
+  beats: number;                    // Beats detected so far
+  quality: SignalQualityReport | null;
+}
+
+export interface StreamOutput {
+  timestamp: number;   // Of the input sample this output belongs to (ms)
+  raw: number;
+  filtered: number;
+}
+
+// Live HR from the last few beats inside this window
+const HR_WINDOW_MS = 10000;
+const HR_MAX_BEATS = 8;
+// Physiological limits: 30-180 BPM
+const MIN_INTERVAL_MS = 60000 / 180;
+const MAX_INTERVAL_MS = 60000 / 30;
+// Peak must reach this fraction of the recent range
+const PEAK_THRESHOLD = 0.5;
+const THRESHOLD_WINDOW_SEC = 2;
+const QUALITY_WINDOW_SEC = 5;
+const SMOOTHING_SIGMA = 2;
+
+// ============================================================================
+// FILTER STAGES
+// ============================================================================
+
+/** Causal biquad cascade; state starts at the steady state of the first sample. */
+export class StreamingBandpass {
+  private sos: SosCoefficients;
+  private state: number[][] | null = null;
+
+  constructor(config: FilterConfig) {
+    this.sos = designBandpassSos(config);
+  }
+
+  process(x: number): number {
+    if (!this.state) this.state = sosfiltZi(this.sos).map(zi => zi.map(z => z * x));
+    let v = x;
+    this.sos.forEach(([b0, b1, b2, , a1, a2], i) => {
+      const z = this.state![i];
+      const y = b0 * v + z[0];
+      z[0] = b1 * v - a1 * y + z[1];
+      z[1] = b2 * v - a2 * y;
+      v = y;
+    });
+    return v;
+  }
+
+  reset() {
+    this.state = null;
+  }
+}
+
+/**
+ * Same kernel as gaussianFilter1d, applied once the window is full, so each
+ * output lags its input by `delay` samples.
+ */
+export class StreamingGaussian {
+  readonly delay: number;
+  private kernel: number[];
+  private window: number[] = [];
+
+  constructor(sigma: number = SMOOTHING_SIGMA) {
+    this.delay = Math.ceil(4 * sigma);
+    const k = Array.from({ length: 2 * this.delay + 1 }, (_, i) => Math.exp(-((i - this.delay) ** 2) / (2 * sigma * sigma)));
+    const sum = k.reduce((a, b) => a + b, 0);
+    this.kernel = k.map(v => v / sum);
+  }
+
+  /** Returns null until `delay` samples of look-ahead have arrived. */
+  process(x: number): number | null {
+    // Repeat the first sample, as the batch filter does at the edge
+    if (this.window.length === 0) for (let i = 0; i < this.delay; i++) this.window.push(x);
+    this.window.push(x);
+    if (this.window.length > this.kernel.length) this.window.shift();
+    if (this.window.length < this.kernel.length) return null;
+    return this.window.reduce((acc, v, i) => acc + v * this.kernel[i], 0);
+  }
+
+  reset() {
+    this.window = [];
+  }
+}
+
+// ============================================================================
+// BEAT DETECTION
+// ============================================================================
+
+/**
+ * Incremental systolic-peak detector: a local maximum above the midpoint of
+ * the last 2 s range counts as a beat unless it falls inside the refractory
+ * period of the previous one, in which case the larger of the two is kept.
+ */
+export class BeatDetector {
+  private fs: number;
+  private recent: number[] = [];
+  private prev: { timestamp: number; value: number }[] = [];
+  private peaks: { timestamp: number; value: number }[] = [];
+
+  constructor(fs: number) {
+    this.fs = fs;
+  }
+
+  get beatTimes(): number[] {
+    return this.peaks.map(p => p.timestamp);
+  }
+
+  /** Returns true when a new beat was added. */
+  push(timestamp: number, value: number): boolean {
+    this.recent.push(value);
+    if (this.recent.length > THRESHOLD_WINDOW_SEC * this.fs) this.recent.shift();
+    this.prev.push({ timestamp, value });
+    if (this.prev.length > 3) this.prev.shift();
+    if (this.prev.length < 3) return false;
+
+    const [before, candidate, after] = this.prev;
+    if (!(candidate.value > before.value && candidate.value >= after.value)) return false;
+
+    let lo = Infinity, hi = -Infinity;
+    for (const v of this.recent) { if (v < lo) lo = v; if (v > hi) hi = v; }
+    if (hi - lo <= 0 || candidate.value < lo + PEAK_THRESHOLD * (hi - lo)) return false;
+
+    const last = this.peaks[this.peaks.length - 1];
+    if (last && candidate.timestamp - last.timestamp < MIN_INTERVAL_MS) {
+      if (candidate.value > last.value) this.peaks[this.peaks.length - 1] = candidate;
+      return false;
+    }
+    this.peaks.push(candidate);
+    if (this.peaks.length > 4 * HR_MAX_BEATS) this.peaks.shift();
+    return true;
+  }
+
+  /** Median-interval HR over the most recent beats, or null without enough of them. */
+  heartRate(now: number): number | null {
+    const times = this.beatTimes.filter(t => now - t <= HR_WINDOW_MS).slice(-HR_MAX_BEATS - 1);
+    const intervals: number[] = [];
+    for (let i = 1; i < times.length; i++) {
+      const dt = times[i] - times[i - 1];
+      if (dt >= MIN_INTERVAL_MS && dt <= MAX_INTERVAL_MS) intervals.push(dt);
+    }
+    return intervals.length >= 2 ? 60000 / median(intervals) : null;
+  }
+
+  reset() {
+    this.recent = [];
+    this.prev = [];
+    this.peaks = [];
+  }
+}
+
+// ============================================================================
+// PROCESSOR
+// ============================================================================
+
+/**
+ * Chains the stages above. Samples are treated as uniformly spaced at the
+ * configured rate; beat times use the samples' own timestamps.
+ */
+export class StreamingProcessor {
+  private fs: number;
+  private bandpass: StreamingBandpass;
+  private smoother = new StreamingGaussian();
+  private detector: BeatDetector;
+  // Inputs waiting for the smoother's look-ahead
+  private pending: SignalSample[] = [];
+  private history: StreamOutput[] = [];
+  private beatCount = 0;
+
+  constructor(config: FilterConfig) {
+    this.fs = config.samplingRate;
+    this.bandpass = new StreamingBandpass(config);
+    this.detector = new BeatDetector(this.fs);
+  }
+
+  /** Feeds one sample; returns the output for an earlier sample once the delay line is full. */
+  push(sample: SignalSample): StreamOutput | null {
+    this.pending.push(sample);
+    const filtered = this.smoother.process(this.bandpass.process(sample.value));
+    if (filtered === null) return null;
+
+    const source = this.pending.shift()!;
+    const out: StreamOutput = { timestamp: source.timestamp, raw: source.value, filtered };
+    this.history.push(out);
+    if (this.history.length > QUALITY_WINDOW_SEC * this.fs) this.history.shift();
+    if (this.detector.push(out.timestamp, filtered)) this.beatCount++;
+    return out;
+  }
+
+  /** Running HR and a quality score over the last few seconds. */
+  getVitals(): LiveVitals {
+    const last = this.history[this.history.length - 1];
+    const full = this.history.length >= QUALITY_WINDOW_SEC * this.fs;
+    return {
+      heartRate: last ? this.detector.heartRate(last.timestamp) : null,
+      beats: this.beatCount,
+      quality: full ? assessSignalQuality(this.history.map(o => o.raw), this.history.map(o => o.filtered), this.fs) : null
+    };
+  }
+
+  reset() {
+    this.bandpass.reset();
+    this.smoother.reset();
+    this.detector.reset();
+    this.pending = [];
+    this.history = [];
+    this.beatCount = 0;
+  }
+}
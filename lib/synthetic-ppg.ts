@@ -0,0 +1,251 @@
+/**
+ * lib/synthetic-ppg.ts
+ * Physiologically grounded synthetic PPG for validation datasets.
+ * Each beat is a sum of Gaussians (systolic, late-systolic augmentation,
+ * diastolic) placed on an RR series with HRV, respiratory modulation
+ * (baseline / amplitude / frequency), ectopic beats, motion bursts and noise.
+ * Ground-truth beat onsets, peaks and RR intervals are returned alongside.
+ */
+
+export interface SyntheticPpgOptions {
+  durationSec: number;
+  samplingRate: number;          // Hz
+  heartRate: number;             // Mean bpm
+  sdnn: number;                  // Total RR std (ms), including respiratory modulation
+  respiratoryRate: number;       // Breaths / min
+  baselineWander: number;        // Respiratory baseline amplitude (x pulse amplitude)
+  amplitudeModulation: number;   // Respiratory pulse-amplitude modulation depth (0-1)
+  frequencyModulation: number;   // Respiratory sinus arrhythmia amplitude (ms of RR)
+  diastolicRatio: number;        // Diastolic / systolic wave amplitude
+  augmentation: number;          // Late-systolic (reflected) wave / systolic amplitude
+  ectopicRate: number;           // Fraction of premature beats (0-1)
+  motionBursts: number;          // Bursts per minute
+  noise: number;                 // White noise std (x pulse amplitude)
+  baseline: number;              // DC level (red channel scale)
+  amplitude: number;             // Systolic wave amplitude
+  seed?: number;                 // Reproducible output when set
+}
+
+export interface SyntheticBeat {
+  onset: number;       // Sample index of the beat foot
+  peak: number;        // Sample index of the systolic maximum (noise-free)
+  rr: number;          // Interval to the next onset (ms)
+  ectopic: boolean;
+}
+
+export interface MotionSpan {
+  start: number;       // Sample indices
+  end: number;
+}
+
+export interface SyntheticLabels {
+  beats: SyntheticBeat[];
+  onsets: number[];
+  peaks: number[];
+  rrIntervals: number[];  // ms, one per beat that has a successor
+  heartRate: number;      // From rrIntervals (bpm)
+  sdnn: number;           // From rrIntervals (ms)
+  respiratoryRate: number;
+  motion: MotionSpan[];
+}
+
+export interface SyntheticPpg {
+  signal: number[];
+  clean: number[];        // Pulse + respiration, before noise / motion
+  timestamps: number[];   // ms from start
+  samplingRate: number;
+  labels: SyntheticLabels;
+}
+
+export const DEFAULT_SYNTHETIC_PPG: SyntheticPpgOptions = {
+  durationSec: 60,
+  samplingRate: 30,
+  heartRate: 72,
+  sdnn: 40,
+  respiratoryRate: 15,
+  baselineWander: 0.3,
+  amplitudeModulation: 0.1,
+  frequencyModulation: 25,
+  diastolicRatio: 0.4,
+  augmentation: 0.2,
+  ectopicRate: 0,
+  motionBursts: 0,
+  noise: 0.05,
+  baseline: 150,
+  amplitude: 3,
+};
+
+// Wave timing at RR = 1 s (seconds after onset: mean, width); scaled by sqrt(RR)
+const SYSTOLIC = { mu: 0.18, sigma: 0.055 };
+const AUGMENTATION = { mu: 0.30, sigma: 0.07 };
+const DIASTOLIC = { mu: 0.48, sigma: 0.10 };
+
+// Premature beat: preceding RR shortened by this fraction
+const ECTOPIC_PREMATURITY = 0.3;
+const ECTOPIC_AMPLITUDE = 0.6;
+
+const MOTION_MIN_SEC = 1;
+const MOTION_MAX_SEC = 3;
+const MOTION_AMPLITUDE = 8;
+
+// ============================================================================
+// RANDOM
+// ============================================================================
+
+export type Random = () => number;
+
+/** mulberry32: small seeded PRNG, uniform in [0, 1). */
+export function createRandom(seed: number = Date.now()): Random {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+export function gaussianRandom(random: Random): number {
+    const u = 1 - random(), v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Knuth's method; fine for the small rates used here. */
+export function poisson(lambda: number, random: Random): number {
+    const limit = Math.exp(-lambda);
+    let k = 0, p = random();
+    while (p > limit) { k++; p *= random(); }
+    return k;
+}
+
+// ============================================================================
+// RR SERIES
+// ============================================================================
+
+export interface RrBeat {
+  time: number;      // Onset (ms from start)
+  rr: number;        // ms to next onset
+  ectopic: boolean;
+}
+
+/**
+ * Onset times covering `durationMs`. RR = mean + RSA (sinusoid at the
+ * respiratory rate) + Gaussian variability sized so the total std ≈ sdnn.
+ */
+export function generateRrSeries(o: SyntheticPpgOptions, random: Random, durationMs: number): RrBeat[] {
+    const meanRr = 60000 / o.heartRate;
+    const fResp = o.respiratoryRate / 60000;   // per ms
+    const randomStd = Math.sqrt(Math.max(o.sdnn * o.sdnn - o.frequencyModulation * o.frequencyModulation / 2, 0));
+
+    const beats: RrBeat[] = [];
+    let t = 0;
+    while (t < durationMs) {
+        let rr = meanRr + o.frequencyModulation * Math.sin(2 * Math.PI * fResp * t) + randomStd * gaussianRandom(random);
+        rr = Math.max(rr, meanRr * 0.5);
+
+        // Premature beat: arrives early, then a compensatory pause makes up the time
+        const prev = beats[beats.length - 1];
+        const ectopic = !!prev && !prev.ectopic && random() < o.ectopicRate;
+        if (ectopic) {
+            const early = prev.rr * ECTOPIC_PREMATURITY;
+            prev.rr -= early;
+            t -= early;
+            rr += early;
+        }
+        beats.push({ time: t, rr, ectopic });
+        t += rr;
+    }
+    return beats;
+}
+
+// ============================================================================
+// GENERATOR
+// ============================================================================
+
+export function generateSyntheticPpg(options: Partial<SyntheticPpgOptions> = {}): SyntheticPpg {
+    const o: SyntheticPpgOptions = { ...DEFAULT_SYNTHETIC_PPG, ...options };
+    const random = createRandom(o.seed);
+    const fs = o.samplingRate;
+    const n = Math.round(o.durationSec * fs);
+    const durationMs = o.durationSec * 1000;
+    const fResp = o.respiratoryRate / 60;   // Hz
+
+    const beats = generateRrSeries(o, random, durationMs);
+    const pulse = new Array(n).fill(0);
+
+    // Beats: Gaussian sum, scaled in time by sqrt(RR) and in amplitude by respiration (AM)
+    for (const beat of beats) {
+        const s = Math.sqrt(beat.rr / 1000);
+        const tOn = beat.time / 1000;
+        const am = 1 + o.amplitudeModulation * Math.sin(2 * Math.PI * fResp * tOn);
+        const gain = am * (beat.ectopic ? ECTOPIC_AMPLITUDE : 1);
+        const waves = [
+            { a: 1, ...SYSTOLIC },
+            { a: o.augmentation, ...AUGMENTATION },
+            { a: o.diastolicRatio, ...DIASTOLIC },
+        ];
+        const from = Math.max(0, Math.floor(tOn * fs));
+        const to = Math.min(n, Math.ceil((tOn + 2 * s) * fs));
+        for (let i = from; i < to; i++) {
+            const dt = i / fs - tOn;
+            if (dt < 0) continue;
+            let v = 0;
+            for (const w of waves) v += w.a * Math.exp(-0.5 * ((dt - w.mu * s) / (w.sigma * s)) ** 2);
+            pulse[i] += gain * v;
+        }
+    }
+
+    const clean = pulse.map((p, i) => o.baseline + o.amplitude * (p + o.baselineWander * Math.sin(2 * Math.PI * fResp * i / fs)));
+
+    // Motion bursts: Hann-windowed low-frequency swings
+    const motion: MotionSpan[] = [];
+    const motionSignal = new Array(n).fill(0);
+    const bursts = poisson(o.motionBursts * o.durationSec / 60, random);
+    for (let b = 0; b < bursts; b++) {
+        const len = Math.round((MOTION_MIN_SEC + random() * (MOTION_MAX_SEC - MOTION_MIN_SEC)) * fs);
+        const start = Math.floor(random() * Math.max(n - len, 1));
+        const amp = MOTION_AMPLITUDE * o.amplitude * gaussianRandom(random);
+        const freq = 0.5 + random() * 1.5;
+        for (let i = 0; i < len && start + i < n; i++) {
+            const hann = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (len - 1));
+            motionSignal[start + i] += amp * hann * Math.sin(2 * Math.PI * freq * i / fs);
+        }
+        motion.push({ start, end: Math.min(start + len, n) });
+    }
+    motion.sort((a, b) => a.start - b.start);
+
+    const signal = clean.map((c, i) => c + motionSignal[i] + o.amplitude * o.noise * gaussianRandom(random));
+
+    // Labels: onsets inside the signal, noise-free systolic maximum per beat
+    const labelled: SyntheticBeat[] = [];
+    beats.forEach((beat, k) => {
+        const onset = Math.round(beat.time / 1000 * fs);
+        if (onset >= n) return;
+        const next = k + 1 < beats.length ? Math.min(Math.round(beats[k + 1].time / 1000 * fs), n) : n;
+        let peak = onset;
+        for (let i = onset; i < next; i++) if (pulse[i] > pulse[peak]) peak = i;
+        labelled.push({ onset, peak, rr: beat.rr, ectopic: beat.ectopic });
+    });
+
+    const rrIntervals = labelled.slice(0, -1).map(b => b.rr);
+    const meanRr = rrIntervals.reduce((a, b) => a + b, 0) / (rrIntervals.length || 1);
+    const sdnn = Math.sqrt(rrIntervals.reduce((a, b) => a + (b - meanRr) ** 2, 0) / (rrIntervals.length || 1));
+
+    return {
+        signal,
+        clean,
+        timestamps: signal.map((_, i) => i * 1000 / fs),
+        samplingRate: fs,
+        labels: {
+            beats: labelled,
+            onsets: labelled.map(b => b.onset),
+            peaks: labelled.map(b => b.peak),
+            rrIntervals,
+            heartRate: meanRr > 0 ? 60000 / meanRr : 0,
+            sdnn,
+            respiratoryRate: o.respiratoryRate,
+            motion
+        }
+    };
+}
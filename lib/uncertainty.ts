@@ -0,0 +1,167 @@
+/**
+ * lib/uncertainty.ts
+ * Uncertainty bands for model predictions. The spread of predictions over
+ * sliding windows of the recording and across available models is combined
+ * with a per-target floor, inflated for poor signal quality, and reported as
+ * a 95% interval around the (calibrated) value.
+ */
+
+import { applyCalibration, CalibrationProfile, CalibrationTarget, CALIBRATION_TARGETS, VitalValues } from './calibration';
+import { std } from './stats';
+import { modelStamp, ModelManifest, ModelOutput, ModelStamp } from './model-registry';
+import { getInferenceService } from './inference-service';
+import { signalWindows } from './windowed-analysis';
+import type { Demographics } from './feature-schema';
+
+export interface PredictionInterval {
+  value: number;
+  lower: number;
+  upper: number;
+  sd: number;                 // In calibrated units
+}
+
+export interface PredictionUncertainty {
+  intervals: Record<CalibrationTarget, PredictionInterval>;
+  level: number;              // Interval coverage (0.95)
+  rawSd: VitalValues;         // Combined SD on the uncalibrated model scale
+  qualityScore: number | null;
+  qualityFactor: number;      // SD multiplier from signal quality (1 = perfect)
+  windowSd: VitalValues | null;     // Prediction spread over sliding windows
+  windows: number;
+  ensembleSd: VitalValues | null;   // Spread across models
+  models: number;
+}
+
+export interface UncertaintySources {
+  qualityScore?: number | null;           // SignalQualityReport score, 0-100
+  windowPredictions?: VitalValues[];
+  ensemblePredictions?: VitalValues[];    // Including the primary model's prediction
+  profile?: CalibrationProfile | null;
+}
+
+// Irreducible spread per target, before quality inflation (mmHg, mmHg, mg/dL)
+export const BASE_SD: VitalValues = { sbp: 4, dbp: 3, glucose: 8 };
+export const INTERVAL_LEVEL = 0.95;
+const Z_95 = 1.96;
+// A score of 0 triples the SD, 100 leaves it unchanged
+const MAX_QUALITY_INFLATION = 2;
+
+export const WINDOW_SEC = 10;
+export const WINDOW_STEP_SEC = 5;
+
+/** Features of overlapping windows of the filtered signal; windows without enough beats are skipped. */
+export function slidingWindowFeatures(filtered: number[], fs: number, windowSec: number = WINDOW_SEC, stepSec: number = WINDOW_STEP_SEC): number[][] {
+    if (filtered.length < Math.round(windowSec * fs)) return [];
+    return signalWindows(filtered, fs, { windowSec, stepSec }).windows.map(w => w.features);
+}
+
+export function qualityFactor(score: number | null | undefined): number {
+    if (score === null || score === undefined || !Number.isFinite(score)) return 1 + MAX_QUALITY_INFLATION / 2;
+    return 1 + MAX_QUALITY_INFLATION * (1 - Math.min(Math.max(score, 0), 100) / 100);
+}
+
+/** Per-target standard deviation, or null with fewer than two predictions. */
+export function predictionSpread(predictions: VitalValues[]): VitalValues | null {
+    return predictions.length < 2 ? null : mapTargets(t => std(predictions.map(p => p[t])));
+}
+
+/**
+ * SD per target = qualityFactor · √(BASE² + window² + ensemble²) on the raw
+ * model scale. The interval is mapped through the patient's calibration,
+ * so a calibration slope widens or narrows it accordingly.
+ */
+export function estimateUncertainty(raw: VitalValues, sources: UncertaintySources = {}): PredictionUncertainty {
+    const windowSd = predictionSpread(sources.windowPredictions ?? []);
+    const ensembleSd = predictionSpread(sources.ensemblePredictions ?? []);
+    const factor = qualityFactor(sources.qualityScore);
+    const profile = sources.profile ?? null;
+
+    const rawSd = mapTargets(t => factor * Math.sqrt(BASE_SD[t] ** 2 + (windowSd?.[t] ?? 0) ** 2 + (ensembleSd?.[t] ?? 0) ** 2));
+    return {
+        intervals: calibratedIntervals(raw, rawSd, profile),
+        level: INTERVAL_LEVEL,
+        rawSd,
+        qualityScore: sources.qualityScore ?? null,
+        qualityFactor: factor,
+        windowSd,
+        windows: sources.windowPredictions?.length ?? 0,
+        ensembleSd,
+        models: sources.ensemblePredictions?.length ?? 0
+    };
+}
+
+/** Same uncertainty mapped through a new calibration profile (e.g. after adding a reference reading). */
+export function recalibrate(uncertainty: PredictionUncertainty, raw: VitalValues, profile: CalibrationProfile | null): PredictionUncertainty {
+    return { ...uncertainty, intervals: calibratedIntervals(raw, uncertainty.rawSd, profile) };
+}
+
+function calibratedIntervals(raw: VitalValues, sd: VitalValues, profile: CalibrationProfile | null): Record<CalibrationTarget, PredictionInterval> {
+    const value = applyCalibration(raw, profile);
+    const lo = applyCalibration(mapTargets(t => raw[t] - Z_95 * sd[t]), profile);
+    const hi = applyCalibration(mapTargets(t => raw[t] + Z_95 * sd[t]), profile);
+    const intervals = {} as Record<CalibrationTarget, PredictionInterval>;
+    for (const t of CALIBRATION_TARGETS) {
+        const lower = Math.min(lo[t], hi[t]), upper = Math.max(lo[t], hi[t]);
+        intervals[t] = { value: value[t], lower, upper, sd: (upper - lower) / (2 * Z_95) };
+    }
+    return intervals;
+}
+
+// ============================================================================
+// PREDICTION
+// ============================================================================
+
+export interface RecordingContext {
+  filtered: number[];          // Preprocessed signal the features came from
+  fs: number;
+  qualityScore?: number | null;
+  ensemble?: ModelManifest[];  // Other models to run for the ensemble spread
+  profile?: CalibrationProfile | null;
+}
+
+export interface UncertainPrediction {
+  raw: ModelOutput;            // Primary model, uncalibrated
+  uncertainty: PredictionUncertainty;
+  others: { model: ModelStamp; output: ModelOutput }[];   // Ensemble members that ran
+}
+
+/**
+ * Runs the primary model on the whole recording and on its sliding windows,
+ * plus every ensemble model, through the shared inference service.
+ * Ensemble models that fail to load or run are left out.
+ */
+export async function predictWithUncertainty(manifest: ModelManifest, features: number[], demographics: Demographics, ctx: RecordingContext): Promise<UncertainPrediction> {
+    const service = getInferenceService();
+    const raw = await service.predict(manifest, features, demographics);
+
+    const windows = slidingWindowFeatures(ctx.filtered, ctx.fs);
+    const windowResults = await service.predictBatch(manifest, windows.map((f, i) => ({ id: `w${i}`, features: f, demographics })));
+    const windowPredictions = windowResults.flatMap(r => r.output ? [r.output] : []);
+
+    const others: UncertainPrediction['others'] = [];
+    for (const m of ctx.ensemble ?? []) {
+        if (m.id === manifest.id) continue;
+        try {
+            others.push({ model: modelStamp(m), output: await service.predict(m, features, demographics) });
+        } catch (e) {
+            console.warn(`Ensemble model ${m.id} skipped`, e);
+        }
+    }
+
+    const uncertainty = estimateUncertainty(raw, {
+        qualityScore: ctx.qualityScore,
+        windowPredictions,
+        ensemblePredictions: others.length ? [raw, ...others.map(o => o.output)] : [],
+        profile: ctx.profile
+    });
+    return { raw, uncertainty, others };
+}
+
+/** Half-width of the interval, for "value ± x" display. */
+export const halfWidth = (i: PredictionInterval) => (i.upper - i.lower) / 2;
+
+function mapTargets(f: (t: CalibrationTarget) => number): VitalValues {
+    const out = {} as VitalValues;
+    for (const t of CALIBRATION_TARGETS) out[t] = f(t);
+    return out;
+}
@@ -0,0 +1,118 @@
+/**
+ * lib/windowed-analysis.ts
+ * Sliding-window analysis of a recording: features, quality and vitals
+ * (HR, HRV, estimated or model-predicted BP / glucose) per window, giving
+ * trajectories over the session instead of one value per recording.
+ */
+
+import { extractFeatures, filterConfigForRate, performMathEstimation, preprocessPPG, FilterConfig } from './signal-processing';
+import { assessSignalQuality } from './signal-quality';
+import { getInferenceService } from './inference-service';
+import type { VitalValues } from './calibration';
+import type { Demographics } from './feature-schema';
+import type { ModelManifest } from './model-registry';
+
+export interface WindowConfig {
+  windowSec: number;
+  stepSec: number;
+}
+
+export interface SignalWindow {
+  startSec: number;          // From the start of the analysed signal
+  endSec: number;
+  features: number[];        // extractFeatures order
+}
+
+export interface VitalsPoint extends SignalWindow {
+  hr: number;                // bpm
+  hrvMs: number;             // SDNN
+  quality: number;           // SignalQualityReport score, 0-100
+  estimate: VitalValues;     // performMathEstimation
+  predicted?: VitalValues;   // Model output, when predictSeries ran
+}
+
+export interface VitalsSeries {
+  config: WindowConfig;
+  points: VitalsPoint[];
+  skipped: number;           // Windows without enough beats for features
+}
+
+export const DEFAULT_WINDOW_CONFIG: WindowConfig = { windowSec: 30, stepSec: 10 };
+// extractFeatures needs a few beats per window
+export const MIN_WINDOW_SEC = 5;
+
+export function validateWindowConfig({ windowSec, stepSec }: WindowConfig): void {
+    if (!(windowSec >= MIN_WINDOW_SEC)) throw new Error(`Window must be at least ${MIN_WINDOW_SEC} s.`);
+    if (!(stepSec > 0)) throw new Error("Window step must be positive.");
+}
+
+/** Overlapping windows of a preprocessed signal; windows whose features fail or are non-finite are counted as skipped. */
+export function signalWindows(filtered: number[], fs: number, config: WindowConfig): { windows: SignalWindow[]; skipped: number } {
+    validateWindowConfig(config);
+    const len = Math.round(config.windowSec * fs);
+    const step = Math.max(1, Math.round(config.stepSec * fs));
+    const windows: SignalWindow[] = [];
+    let skipped = 0;
+    for (let start = 0; start + len <= filtered.length; start += step) {
+        try {
+            const features = extractFeatures(filtered.slice(start, start + len), fs);
+            if (!features.every(Number.isFinite)) throw new Error("Non-finite features.");
+            windows.push({ startSec: start / fs, endSec: (start + len) / fs, features });
+        } catch {
+            skipped++;
+        }
+    }
+    return { windows, skipped };
+}
+
+/** Preprocesses a uniformly resampled raw signal once, then analyses each window. */
+export function analyzeWindows(raw: number[], fs: number, filterConfig: FilterConfig, demographics: Demographics, config: WindowConfig = DEFAULT_WINDOW_CONFIG): VitalsSeries {
+    if (raw.length < Math.round(config.windowSec * fs)) return { config, points: [], skipped: 0 };
+    const filtered = preprocessPPG(raw, filterConfigForRate(filterConfig, fs));
+    const { windows, skipped } = signalWindows(filtered, fs, config);
+    const { age, height, weight } = demographics;
+    const points = windows.map((w): VitalsPoint => {
+        const from = Math.round(w.startSec * fs), to = Math.round(w.endSec * fs);
+        return {
+            ...w,
+            hr: w.features[6],
+            hrvMs: w.features[7] * 1000,
+            quality: assessSignalQuality(raw.slice(from, to), filtered.slice(from, to), fs).score,
+            estimate: performMathEstimation(w.features, age, height, weight)
+        };
+    });
+    return { config, points, skipped };
+}
+
+/** Adds uncalibrated model predictions to every window, batched through the inference service. */
+export async function predictSeries(series: VitalsSeries, manifest: ModelManifest, demographics: Demographics): Promise<VitalsSeries> {
+    const results = await getInferenceService().predictBatch(manifest, series.points.map((p, i) => ({ id: String(i), features: p.features, demographics })));
+    return {
+        ...series,
+        points: series.points.map((p, i) => {
+            const out = results[i].output;
+            return out ? { ...p, predicted: { sbp: out.sbp, dbp: out.dbp, glucose: out.glucose } } : p;
+        })
+    };
+}
+
+/** One row per window; `startTime` (epoch ms) adds absolute timestamps. */
+export function vitalsSeriesToCsv(series: VitalsSeries, startTime?: number): string {
+    const header = ['start_s', 'end_s', ...(startTime !== undefined ? ['timestamp'] : []), 'hr_bpm', 'hrv_ms', 'quality',
+        'est_sbp', 'est_dbp', 'est_glucose', 'pred_sbp', 'pred_dbp', 'pred_glucose'];
+    const rows = series.points.map(p => [
+        p.startSec.toFixed(1),
+        p.endSec.toFixed(1),
+        ...(startTime !== undefined ? [new Date(startTime + p.startSec * 1000).toISOString()] : []),
+        p.hr.toFixed(1),
+        p.hrvMs.toFixed(1),
+        String(p.quality),
+        String(p.estimate.sbp),
+        String(p.estimate.dbp),
+        String(p.estimate.glucose),
+        p.predicted ? p.predicted.sbp.toFixed(1) : '',
+        p.predicted ? p.predicted.dbp.toFixed(1) : '',
+        p.predicted ? p.predicted.glucose.toFixed(1) : ''
+    ].join(','));
+    return [header.join(','), ...rows].join('\n');
+}
@@ -0,0 +1,56 @@
+"""
+scripts/golden_ppg.py
+Writes the Python training pipeline's feature vector for the golden signal
+into lib/__tests__/fixtures/golden-ppg.json, which the TypeScript test then
+checks extractFeatures(preprocessPPG(signal)) against.
+
+Run it from an environment where the training pipeline is importable:
+
+    python scripts/golden_ppg.py --preprocess ppg.preprocess:preprocess_ppg \
+        --features ppg.features:extract_features
+
+Both callables take (signal, fs); the feature vector must be in
+FEATURE_NAMES order (lib/signal-processing.ts).
+"""
+
+import argparse
+import importlib
+import json
+import math
+from pathlib import Path
+
+FIXTURE = Path(__file__).resolve().parent.parent / "lib" / "__tests__" / "fixtures" / "golden-ppg.json"
+FEATURE_COUNT = 18
+
+
+def load_callable(spec):
+    module_name, _, attr = spec.partition(":")
+    if not attr:
+        raise SystemExit(f"Expected module:function, got {spec!r}.")
+    return getattr(importlib.import_module(module_name), attr)
+
+
+def main():
+    parser = argparse.ArgumentParser(description=__doc__, formatter_class=argparse.RawDescriptionHelpFormatter)
+    parser.add_argument("--preprocess", required=True, help="module:function, (signal, fs) -> filtered signal")
+    parser.add_argument("--features", required=True, help="module:function, (filtered, fs) -> feature vector")
+    parser.add_argument("--fixture", type=Path, default=FIXTURE)
+    args = parser.parse_args()
+
+    golden = json.loads(args.fixture.read_text())
+    fs = golden["samplingRate"]
+    preprocess = load_callable(args.preprocess)
+    extract = load_callable(args.features)
+
+    features = [float(v) for v in extract(preprocess(list(golden["signal"]), fs), fs)]
+    if len(features) != FEATURE_COUNT or not all(math.isfinite(v) for v in features):
+        raise SystemExit(f"Expected {FEATURE_COUNT} finite features, got {features}.")
+
+    golden["features"] = features
+    golden["source"] = f"python {args.preprocess} + {args.features}"
+    args.fixture.write_text(json.dumps(golden, indent=2) + "\n")
+    print(f"Wrote {FEATURE_COUNT} reference features to {args.fixture}")
+
+
+if __name__ == "__main__":
+    main()